@@ -4,7 +4,10 @@ import { DocumentsList } from './components/DocumentsList';
 import { ChatPage } from './components/ChatPage';
 import { SettingsPage } from './components/SettingsPage';
 import { useChat } from './hooks/useChat';
-import { googleDriveService } from './services/googleDriveService';
+import { useUploadQueue } from './hooks/useUploadQueue';
+import { googleDriveService, DriveFolder, GoogleDriveFile } from './services/googleDriveService';
+import { loadDocuments, toDocument } from './services/driveDocument';
+import { ArchivedMessage } from './services/chatSessionService';
 import { Document } from './types';
 import { FileText } from 'lucide-react';
 
@@ -12,15 +15,48 @@ type Page = 'home' | 'documents' | 'chat' | 'settings';
 
 function App() {
   const [documents, setDocuments] = useState<Document[]>([]);
-  const [selectedDocumentId, setSelectedDocumentId] = useState<string>();
+  // Engagement folders inside the app's Drive folder
+  const [driveFolders, setDriveFolders] = useState<DriveFolder[]>([]);
+  const [appFolderId, setAppFolderId] = useState<string>();
+  const [driveFoldersError, setDriveFoldersError] = useState<string | null>(null);
+  // PDFs uploaded before the app had its own folder, still in the root of My Drive
+  const [rootUploads, setRootUploads] = useState<GoogleDriveFile[]>([]);
+  // The first selected document is the primary one; the chat page can add more for cross-document questions
+  const [selectedDocumentIds, setSelectedDocumentIds] = useState<string[]>([]);
+  const selectedDocumentId = selectedDocumentIds[0];
   const [currentPage, setCurrentPage] = useState<Page>('home');
   const [isAuthenticated, setIsAuthenticated] = useState(googleDriveService.isAuthenticated());
   
-  const selectedDocument = documents.find(doc => doc.id === selectedDocumentId);
   
-  const { messages, sendMessage, isLoading, clearMessages, knowledgeGraphData } = useChat(
-    selectedDocumentId,
-    documents
+  const {
+    messages,
+    sendMessage,
+    retryMessage,
+    refreshAnswer,
+    regenerateAnswer,
+    editAndResend,
+    selectVariant,
+    rateMessage,
+    cancelQueuedQuestion,
+    moveQueuedQuestion,
+    stopGeneration,
+    resumeQueue,
+    isQueuePaused,
+    isLoading,
+    knowledgeGraphData,
+    sessions,
+    currentSessionId,
+    currentSession,
+    focusedMessageId,
+    startNewSession,
+    resumeSession,
+    openArchivedMessage,
+    renameSession,
+    deleteSession,
+  } = useChat(
+    selectedDocumentIds,
+    documents,
+    documentIds => handleSessionDocumentsRestore(documentIds)
   );
 
   // Initialize Google Drive on component mount
@@ -29,6 +65,10 @@ function App() {
       try {
         await googleDriveService.initialize();
         setIsAuthenticated(googleDriveService.isAuthenticated());
+        // A Drive session restored from this tab can be used right away
+        if (googleDriveService.isAuthenticated()) {
+          await loadDriveFolders();
+        }
       } catch (error) {
         console.error('Failed to initialize Google Drive:', error);
       }
@@ -46,8 +86,8 @@ function App() {
       await googleDriveService.authenticate();
       setIsAuthenticated(googleDriveService.isAuthenticated());
       
-      // Load existing documents after authentication
-      await loadExistingDocuments();
+      // Load the app's Drive folders after authentication
+      await loadDriveFolders();
       
       // Navigate to documents page after successful login
       setCurrentPage('documents');
@@ -57,52 +97,122 @@ function App() {
     }
   };
 
-  const loadExistingDocuments = async () => {
+  // The documents themselves are listed page by page on the documents page
+  const loadDriveFolders = async () => {
+    setDriveFoldersError(null);
     try {
-      const driveFiles = await googleDriveService.listDocuments();
-      const newDocuments: Document[] = driveFiles
-        .filter(file => file.mimeType === 'application/pdf') // Only PDFs
-        .map(file => ({
-          id: file.id,
-          name: file.name,
-          size: parseInt(file.size) || 0,
-          type: file.mimeType,
-          uploadedAt: new Date(file.createdTime),
-          driveFileId: file.id,
-          webViewLink: file.webViewLink,
-          webContentLink: file.webContentLink,
-          shareableLink: `https://drive.google.com/uc?id=${file.id}&export=download`,
-          metadata: {
-            driveId: file.id,
-            createdTime: file.createdTime,
-          },
-        }));
-      
-      newDocuments.forEach(doc => handleDocumentUpload(doc));
+      const [folderId, folders] = await Promise.all([
+        googleDriveService.getAppFolderId(),
+        googleDriveService.listFolders(),
+      ]);
+      setAppFolderId(folderId);
+      setDriveFolders(folders);
     } catch (error) {
-      console.error('Error loading existing documents:', error);
+      console.error('Error loading Drive folders:', error);
+      setDriveFoldersError(error instanceof Error ? error.message : 'Failed to open the app folder in Google Drive');
+      // Show the sign-in button again if the Drive session could not be refreshed
+      setIsAuthenticated(googleDriveService.isAuthenticated());
+      return;
+    }
+
+    try {
+      setRootUploads(await googleDriveService.listRootUploads());
+    } catch (error) {
+      console.warn('Failed to look for earlier uploads in the root of My Drive:', error);
     }
   };
-  const handleDocumentUpload = (document: Document) => {
-    setDocuments(prev => [...prev, document]);
-    // Auto-select the first uploaded document
-    if (!selectedDocumentId) {
-      setSelectedDocumentId(document.id);
+
+  // Move earlier uploads from the root of My Drive into the app folder, where they are listed
+  const handleMoveRootUploads = async () => {
+    if (!appFolderId) return;
+    const results = await Promise.allSettled(rootUploads.map(file => googleDriveService.moveFile(file, appFolderId)));
+    const moved = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const notMoved = rootUploads.filter((_, index) => results[index].status === 'rejected');
+    setRootUploads(notMoved);
+    handleDocumentsLoaded(moved.map(toDocument));
+    if (notMoved.length > 0) {
+      throw new Error(`${notMoved.length} of the documents could not be moved. Please try again.`);
     }
   };
 
+  // Add or refresh documents loaded from Drive, keeping any already loaded ones
+  const handleDocumentsLoaded = (loaded: Document[]) => {
+    setDocuments(prev => {
+      const loadedById = new Map(loaded.map(doc => [doc.id, doc]));
+      const kept = prev.map(doc => loadedById.get(doc.id) || doc);
+      return [...kept, ...loaded.filter(doc => !prev.some(existing => existing.id === doc.id))];
+    });
+    setSelectedDocumentIds(prev => (prev.length > 0 || loaded.length === 0 ? prev : [loaded[0].id]));
+  };
+
+  const handleCreateFolder = async (name: string): Promise<DriveFolder> => {
+    const folder = await googleDriveService.createFolder(name);
+    setDriveFolders(prev => prev.some(f => f.id === folder.id)
+      ? prev
+      : [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+    return folder;
+  };
+
+  const handleFileUploaded = (driveFile: GoogleDriveFile) => {
+    const document = toDocument(driveFile);
+    setDocuments(prev => (prev.some(doc => doc.id === document.id) ? prev : [...prev, document]));
+    // Auto-select the first uploaded document
+    setSelectedDocumentIds(prev => (prev.length > 0 ? prev : [document.id]));
+  };
+
+  // Kept here rather than on the documents page, so uploads continue while the user chats
+  const uploadQueue = useUploadQueue(handleFileUploaded);
+
   const handleDocumentRemove = (documentId: string) => {
     setDocuments(prev => prev.filter(doc => doc.id !== documentId));
-    if (selectedDocumentId === documentId) {
+    if (selectedDocumentIds.includes(documentId)) {
+      const remainingSelection = selectedDocumentIds.filter(id => id !== documentId);
       const remainingDocs = documents.filter(doc => doc.id !== documentId);
-      setSelectedDocumentId(remainingDocs.length > 0 ? remainingDocs[0].id : undefined);
-      clearMessages();
+      setSelectedDocumentIds(
+        remainingSelection.length > 0 ? remainingSelection : remainingDocs.slice(0, 1).map(doc => doc.id)
+      );
     }
   };
 
+  // Switching documents resumes that document's latest stored chat session
   const handleDocumentSelect = (documentId: string) => {
-    setSelectedDocumentId(documentId);
-    clearMessages();
+    setSelectedDocumentIds([documentId]);
+  };
+
+  // Add or remove a document from a multi-document question. The primary document stays selected,
+  // because changing it switches to that document's chat sessions.
+  const handleDocumentToggle = (documentId: string) => {
+    setSelectedDocumentIds(prev => {
+      if (prev[0] === documentId) return prev;
+      return prev.includes(documentId) ? prev.filter(id => id !== documentId) : [...prev, documentId];
+    });
+  };
+
+  // Load documents a session was held about that haven't been listed yet, e.g. from another engagement.
+  // Returns the ids of the ones that are available.
+  const loadSessionDocuments = async (documentIds: string[]) => {
+    const available = await loadDocuments(documentIds, documents);
+    const fetched = available.filter(doc => !documents.some(existing => existing.id === doc.id));
+    if (fetched.length > 0) {
+      handleDocumentsLoaded(fetched);
+    }
+    return available.map(doc => doc.id);
+  };
+
+  // Select the documents a chat session was held about again when it is opened
+  const handleSessionDocumentsRestore = async (documentIds: string[]) => {
+    const [primaryId] = documentIds;
+    const availableIds = await loadSessionDocuments(documentIds);
+    setSelectedDocumentIds(prev => (prev[0] === primaryId
+      ? [primaryId, ...availableIds.filter(id => id !== primaryId)]
+      : prev));
+  };
+
+  // Open a message found in the archive: select its session's documents, then open the session at that message
+  const handleOpenSearchResult = async (result: ArchivedMessage) => {
+    const availableIds = await loadSessionDocuments([result.documentId, ...result.sessionDocumentIds]);
+    setSelectedDocumentIds([result.documentId, ...availableIds.filter(id => id !== result.documentId)]);
+    openArchivedMessage(result.sessionId, result.messageId, result.variantIndex);
   };
 
   const onPageChange = (page: Page) => {
@@ -115,10 +225,18 @@ function App() {
         return (
           <DocumentsList
             documents={documents}
+            appFolderId={appFolderId}
+            folders={driveFolders}
+            foldersError={isAuthenticated ? driveFoldersError : 'Sign in to Google Drive on the home page to see your documents.'}
+            onReloadFolders={loadDriveFolders}
+            rootUploadCount={rootUploads.length}
+            onMoveRootUploads={handleMoveRootUploads}
+            onDocumentsLoaded={handleDocumentsLoaded}
+            onCreateFolder={handleCreateFolder}
             onDocumentRemove={handleDocumentRemove}
             selectedDocumentId={selectedDocumentId}
             onDocumentSelect={handleDocumentSelect}
-            onDocumentUpload={handleDocumentUpload}
+            uploadQueue={uploadQueue}
             onStartChatting={() => onPageChange('chat')}
           />
         );
@@ -127,11 +245,32 @@ function App() {
           <ChatPage
             messages={messages}
             onSendMessage={sendMessage}
+            onStop={stopGeneration}
+            onResumeQueue={resumeQueue}
+            onRetry={retryMessage}
+            onRefresh={refreshAnswer}
+            onRegenerate={regenerateAnswer}
+            onEditMessage={editAndResend}
+            onSelectVariant={selectVariant}
+            onRateMessage={rateMessage}
+            onCancelQueued={cancelQueuedQuestion}
+            onMoveQueued={moveQueuedQuestion}
             isLoading={isLoading}
-            selectedDocument={selectedDocument}
+            isQueuePaused={isQueuePaused}
+            selectedDocumentIds={selectedDocumentIds}
             documents={documents}
             onDocumentSelect={handleDocumentSelect}
+            onDocumentToggle={handleDocumentToggle}
             knowledgeGraphData={knowledgeGraphData}
+            sessions={sessions}
+            currentSessionId={currentSessionId}
+            currentSession={currentSession}
+            focusedMessageId={focusedMessageId}
+            onOpenSearchResult={handleOpenSearchResult}
+            onNewSession={startNewSession}
+            onResumeSession={resumeSession}
+            onRenameSession={renameSession}
+            onDeleteSession={deleteSession}
           />
         );
       case 'settings':
@@ -1,22 +1,71 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, MessageSquare, Bot, User } from 'lucide-react';
-import { ChatMessage } from '../types';
-import ReactMarkdown from 'react-markdown';
+import { Send, MessageSquare, Bot, User, FileText, Square, RotateCcw, AlertCircle, RefreshCw, Pencil, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Download, BookMarked, Database, Clock, X, Play } from 'lucide-react';
+import { ChatMessage, ChatMessageFeedback, ChatSession, Document } from '../types';
+import { SourceFootnotes } from './SourceFootnotes';
+import { MessageFeedback } from './MessageFeedback';
+import { MarkdownMessage } from './MarkdownMessage';
+import { CopyButton } from './CopyButton';
+import { MessageDiagnostics } from './MessageDiagnostics';
+import { PromptTemplatesPanel } from './PromptTemplatesPanel';
+import { getSlashCommandSuggestions, parseSlashCommand, SlashCommandError } from '../services/slashCommands';
+import { chatExportService, ChatExportFormat } from '../services/chatExportService';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSendMessage: (message: string) => void;
+  onStop: () => void;
+  onResumeQueue: () => void;
+  onRetry: (messageId: string) => void;
+  onRefresh: (messageId: string) => void;
+  onRegenerate: (messageId: string) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onSelectVariant: (messageId: string, variantIndex: number) => void;
+  onRateMessage: (messageId: string, rating: ChatMessageFeedback['rating'], comment?: string) => Promise<void>;
+  onCancelQueued: (messageId: string) => void;
+  onMoveQueued: (messageId: string, direction: -1 | 1) => void;
   isLoading: boolean;
+  // Set after Stop until the queue is resumed or another question is sent
+  isQueuePaused?: boolean;
   selectedDocumentName?: string;
+  documents?: Document[];
+  selectedDocuments?: Document[];
+  session?: ChatSession | null;
+  // Message to scroll to and highlight, e.g. one opened from search
+  focusedMessageId?: string | null;
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   messages,
   onSendMessage,
+  onStop,
+  onResumeQueue,
+  onRetry,
+  onRefresh,
+  onRegenerate,
+  onEditMessage,
+  onSelectVariant,
+  onRateMessage,
+  onCancelQueued,
+  onMoveQueued,
   isLoading,
+  isQueuePaused = false,
   selectedDocumentName,
+  documents = [],
+  selectedDocuments = [],
+  session,
+  focusedMessageId,
 }) => {
   const [inputMessage, setInputMessage] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  const suggestions = suggestionsDismissed ? [] : getSlashCommandSuggestions(inputMessage, documents);
+  // Questions waiting for a free slot, in the order they will be sent
+  const queuedMessageIds = messages.filter(message => message.queued).map(message => message.id);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -24,19 +73,104 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Focused message already scrolled to, so later updates such as a retried answer scroll to the bottom again
+  const scrolledToFocusIdRef = useRef<string | null>(null);
+
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (!focusedMessageId) {
+      scrolledToFocusIdRef.current = null;
+    }
+    const focusedElement = focusedMessageId && focusedMessageId !== scrolledToFocusIdRef.current
+      && document.getElementById(`message-${focusedMessageId}`);
+    if (focusedElement) {
+      focusedElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      scrolledToFocusIdRef.current = focusedMessageId;
+    } else {
+      scrollToBottom();
+    }
+  }, [messages, focusedMessageId]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputMessage.trim() && !isLoading) {
+    // Questions sent while answers are loading join the queue
+    if (inputMessage.trim()) {
       const message = inputMessage.trim();
+      try {
+        parseSlashCommand(message, documents);
+      } catch (error) {
+        if (error instanceof SlashCommandError) {
+          setCommandError(error.message);
+          return;
+        }
+        throw error;
+      }
       setInputMessage('');
       onSendMessage(message);
     }
   };
 
+  const handleInputChange = (value: string) => {
+    setInputMessage(value);
+    setCommandError(null);
+    setHighlightedSuggestion(0);
+    setSuggestionsDismissed(false);
+  };
+
+  const acceptSuggestion = (value: string) => {
+    handleInputChange(value);
+    inputRef.current?.focus();
+  };
+
+  // Arrow keys move through the slash command suggestions, Tab/Enter accept one, Escape hides them
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedSuggestion(index => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      e.preventDefault();
+      acceptSuggestion(suggestions[Math.min(highlightedSuggestion, suggestions.length - 1)].value);
+    } else if (e.key === 'Escape') {
+      setSuggestionsDismissed(true);
+    }
+  };
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditDraft(message.content);
+  };
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingMessageId && editDraft.trim() && !isLoading) {
+      onEditMessage(editingMessageId, editDraft.trim());
+      setEditingMessageId(null);
+    }
+  };
+
+  // Templates fill the input rather than sending, so the question can be adjusted first
+  const handleUseTemplate = (question: string) => {
+    setShowTemplates(false);
+    handleInputChange(question);
+    inputRef.current?.focus();
+  };
+
+  const handleExport = async (format: ChatExportFormat) => {
+    setShowExportMenu(false);
+    if (!session) return;
+    try {
+      await chatExportService.exportSession(session, documents, format);
+    } catch (error) {
+      console.error('Failed to export chat session:', error);
+      alert(error instanceof Error ? error.message : 'Failed to export the conversation.');
+    }
+  };
+
+  const getDocumentName = (documentId: string) =>
+    documents.find(doc => doc.id === documentId)?.name || documentId;
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
@@ -49,12 +183,45 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <div className="p-2 bg-gray-600 rounded-lg">
             <MessageSquare className="w-5 h-5 text-gray-300" />
           </div>
-          <div>
+          <div className="flex-1 min-w-0">
             <h3 className="font-semibold text-white text-lg">Document Assistant</h3>
             {selectedDocumentName && (
               <p className="text-sm text-gray-400 font-medium">Analyzing: {selectedDocumentName}</p>
             )}
           </div>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(open => !open)}
+              disabled={!session || isLoading}
+              className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-300 bg-gray-700 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Export this conversation"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export</span>
+            </button>
+            {showExportMenu && session && (
+              <div className="absolute right-0 mt-2 w-48 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-10 overflow-hidden">
+                <button
+                  onClick={() => handleExport('markdown')}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-200 hover:bg-gray-700 transition-colors"
+                >
+                  Markdown (.md)
+                </button>
+                <button
+                  onClick={() => handleExport('json')}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-200 hover:bg-gray-700 transition-colors"
+                >
+                  JSON (.json)
+                </button>
+                <button
+                  onClick={() => handleExport('print')}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-200 hover:bg-gray-700 transition-colors"
+                >
+                  Print / PDF
+                </button>
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
@@ -76,6 +243,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           messages.map((message) => (
             <div
               key={message.id}
+              id={`message-${message.id}`}
               className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}
             >
               <div className={`flex items-start space-x-3 max-w-3xl ${
@@ -94,68 +262,317 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 </div>
                 
                 <div className={`p-4 rounded-2xl shadow-lg ${
+                  message.id === focusedMessageId ? 'ring-2 ring-yellow-400/70 ' : ''
+                }${
                   message.sender === 'user'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-800 text-white border border-gray-700'
+                    ? message.queued
+                      ? 'bg-blue-600/40 text-white border border-dashed border-blue-400/60'
+                      : 'bg-blue-600 text-white'
+                    : message.status === 'error'
+                      ? 'bg-gray-800 text-white border border-red-700/60'
+                      : 'bg-gray-800 text-white border border-gray-700'
                 }`}>
                   {message.sender === 'assistant' ? (
-                    <div className="prose prose-invert prose-sm max-w-none">
-                      <ReactMarkdown>{message.content}</ReactMarkdown>
-                    </div>
+                    message.isStreaming && !message.content ? (
+                      // Typing indicator until the first streamed token (or the whole answer) arrives
+                      <div className="flex space-x-1 py-1">
+                        <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce"></div>
+                        <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                        <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                      </div>
+                    ) : (
+                      <div className="prose prose-invert prose-sm max-w-none">
+                        <MarkdownMessage content={message.content} />
+                        {message.isStreaming && (
+                          <span className="inline-block w-2 h-4 align-text-bottom bg-blue-500 animate-pulse" />
+                        )}
+                      </div>
+                    )
+                  ) : editingMessageId === message.id ? (
+                    <form onSubmit={handleEditSubmit} className="space-y-2 min-w-[16rem]">
+                      <textarea
+                        value={editDraft}
+                        onChange={(e) => setEditDraft(e.target.value)}
+                        rows={3}
+                        autoFocus
+                        className="w-full px-3 py-2 bg-blue-700 border border-blue-400/50 rounded-lg text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-300 resize-y"
+                      />
+                      <div className="flex justify-end space-x-2 text-sm">
+                        <button
+                          type="button"
+                          onClick={() => setEditingMessageId(null)}
+                          className="px-3 py-1 rounded-md text-blue-100 hover:bg-blue-700 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="submit"
+                          disabled={!editDraft.trim() || isLoading}
+                          className="px-3 py-1 rounded-md bg-white text-blue-700 font-medium hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Save & send
+                        </button>
+                      </div>
+                    </form>
                   ) : (
                     <p className="whitespace-pre-wrap leading-relaxed">{message.content}</p>
                   )}
-                  <p className={`text-xs mt-2 ${
+                  {message.status && (
+                    <div className={`flex items-start space-x-2 text-sm ${message.content ? 'mt-3' : ''} ${
+                      message.status === 'error' ? 'text-red-300' : 'text-gray-400'
+                    }`}>
+                      <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span className="flex-1 whitespace-pre-wrap">
+                        {message.status === 'error' ? message.error || 'The request failed.' : 'Stopped.'}
+                      </span>
+                      <button
+                        onClick={() => onRetry(message.id)}
+                        disabled={isLoading}
+                        className="flex items-center space-x-1 px-2 py-0.5 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        <span>Retry</span>
+                      </button>
+                    </div>
+                  )}
+                  {message.sender === 'assistant' && !message.isStreaming && message.documentIds && message.documentIds.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-3">
+                      {message.documentIds.map(documentId => (
+                        <span
+                          key={documentId}
+                          className="inline-flex items-center space-x-1 px-2 py-0.5 bg-gray-700 rounded-full text-xs text-gray-300"
+                        >
+                          <FileText className="w-3 h-3 text-red-400" />
+                          <span className="truncate max-w-[12rem]">{getDocumentName(documentId)}</span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {message.sender === 'assistant' && message.sources && message.sources.length > 0 && (
+                    <SourceFootnotes sources={message.sources} documents={documents} />
+                  )}
+                  {message.sender === 'assistant' && message.followUpQuestions && message.followUpQuestions.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {message.followUpQuestions.map(question => (
+                        <button
+                          key={question}
+                          onClick={() => onSendMessage(question)}
+                          className="px-3 py-1 text-xs text-blue-200 bg-blue-900/30 border border-blue-700/40 rounded-full hover:bg-blue-900/50 transition-colors text-left"
+                        >
+                          {question}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {message.sender === 'assistant' && !message.isStreaming && message.status !== 'error' && message.content && (
+                    <MessageFeedback
+                      key={message.activeVariant}
+                      feedback={message.feedback}
+                      onRate={(rating, comment) => onRateMessage(message.id, rating, comment)}
+                    />
+                  )}
+                  {message.sender === 'assistant' && !message.isStreaming && message.diagnostics && (
+                    <MessageDiagnostics diagnostics={message.diagnostics} />
+                  )}
+                  <div className={`flex items-center space-x-3 text-xs mt-2 ${
                     message.sender === 'user' ? 'text-blue-100' : 'text-gray-400'
                   }`}>
-                    {formatTime(message.timestamp)}
-                  </p>
+                    <span>{formatTime(message.timestamp)}</span>
+                    {message.queued && (
+                      <span className="flex items-center space-x-1">
+                        <span className="inline-flex items-center space-x-1 px-1.5 py-0.5 rounded bg-blue-900/60">
+                          <Clock className="w-3 h-3" />
+                          <span>Queued #{queuedMessageIds.indexOf(message.id) + 1}</span>
+                        </span>
+                        <button
+                          onClick={() => onMoveQueued(message.id, -1)}
+                          disabled={queuedMessageIds[0] === message.id}
+                          className="p-0.5 rounded hover:bg-black/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Ask earlier"
+                        >
+                          <ChevronUp className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => onMoveQueued(message.id, 1)}
+                          disabled={queuedMessageIds[queuedMessageIds.length - 1] === message.id}
+                          className="p-0.5 rounded hover:bg-black/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Ask later"
+                        >
+                          <ChevronDown className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => onCancelQueued(message.id)}
+                          className="p-0.5 rounded hover:bg-black/20"
+                          title="Remove from queue"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    )}
+                    {message.cachedAt && !message.isStreaming && (
+                      <span className="flex items-center space-x-1">
+                        <span
+                          className="inline-flex items-center space-x-1 px-1.5 py-0.5 rounded bg-amber-900/40 text-amber-300 border border-amber-700/40"
+                          title={`Answered from the local cache. Originally answered ${new Date(message.cachedAt).toLocaleString()}.`}
+                        >
+                          <Database className="w-3 h-3" />
+                          <span>Cached</span>
+                        </span>
+                        <button
+                          onClick={() => onRefresh(message.id)}
+                          disabled={isLoading}
+                          className="underline hover:text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Ask the backend again instead of using the cached answer"
+                        >
+                          Refresh
+                        </button>
+                      </span>
+                    )}
+                    {message.variants && message.variants.length > 1 && (
+                      <span className="flex items-center space-x-1">
+                        <button
+                          onClick={() => onSelectVariant(message.id, (message.activeVariant ?? 0) - 1)}
+                          disabled={isLoading || (message.activeVariant ?? 0) === 0}
+                          className="p-0.5 rounded hover:bg-black/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Previous version"
+                        >
+                          <ChevronLeft className="w-3.5 h-3.5" />
+                        </button>
+                        <span>{(message.activeVariant ?? 0) + 1}/{message.variants.length}</span>
+                        <button
+                          onClick={() => onSelectVariant(message.id, (message.activeVariant ?? 0) + 1)}
+                          disabled={isLoading || (message.activeVariant ?? 0) >= message.variants.length - 1}
+                          className="p-0.5 rounded hover:bg-black/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Next version"
+                        >
+                          <ChevronRight className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    )}
+                    {!message.isStreaming && message.content && (
+                      <CopyButton text={message.content} title="Copy message" />
+                    )}
+                    {message.sender === 'user' && !message.queued && editingMessageId !== message.id && (
+                      <button
+                        onClick={() => startEditing(message)}
+                        disabled={isLoading}
+                        className="p-0.5 rounded hover:bg-black/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Edit question and ask again"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    {message.sender === 'assistant' && !message.isStreaming && !message.status && (
+                      <button
+                        onClick={() => onRegenerate(message.id)}
+                        disabled={isLoading}
+                        className="p-0.5 rounded hover:bg-black/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Regenerate answer"
+                      >
+                        <RefreshCw className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
           ))
         )}
         
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="flex items-start space-x-3 max-w-3xl">
-              <div className="p-2.5 rounded-xl bg-gray-700">
-                <Bot className="w-4 h-4 text-gray-300" />
-              </div>
-              <div className="p-4 rounded-2xl bg-gray-800 border border-gray-700">
-                <div className="flex space-x-1">
-                  <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce"></div>
-                  <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                  <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
-        
         <div ref={messagesEndRef} />
       </div>
 
       {/* Input */}
       <div className="p-6 border-t border-gray-700 bg-gray-800 rounded-b-xl">
-        <form onSubmit={handleSubmit} className="flex space-x-4">
-          <input
-            ref={inputRef}
-            type="text"
-            value={inputMessage}
-            onChange={(e) => setInputMessage(e.target.value)}
-            placeholder={selectedDocumentName ? "Ask a question about your document..." : "Upload a document first..."}
-            disabled={!selectedDocumentName || isLoading}
-            className="flex-1 px-5 py-3.5 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-600 disabled:cursor-not-allowed font-medium"
+        {showTemplates && (
+          <PromptTemplatesPanel
+            variables={{
+              documentName: selectedDocuments[0]?.name || '',
+              documentNames: selectedDocuments.map(doc => doc.name).join(', '),
+              date: new Date().toLocaleDateString(),
+            }}
+            onUseTemplate={handleUseTemplate}
+            onClose={() => setShowTemplates(false)}
           />
+        )}
+        <form onSubmit={handleSubmit} className="flex space-x-4">
+          <button
+            type="button"
+            onClick={() => setShowTemplates(open => !open)}
+            disabled={!selectedDocumentName}
+            className={`px-4 py-3.5 rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              showTemplates ? 'bg-gray-600 border-gray-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+            }`}
+            title="Question templates"
+          >
+            <BookMarked className="w-5 h-5" />
+          </button>
+          <div className="relative flex-1">
+            {suggestions.length > 0 && (
+              <ul className="absolute bottom-full left-0 right-0 mb-2 bg-gray-900 border border-gray-700 rounded-lg shadow-xl overflow-hidden z-10">
+                {suggestions.map((suggestion, index) => (
+                  <li key={suggestion.value}>
+                    <button
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => acceptSuggestion(suggestion.value)}
+                      className={`w-full flex items-baseline justify-between px-4 py-2 text-left text-sm transition-colors ${
+                        index === highlightedSuggestion ? 'bg-gray-700' : 'hover:bg-gray-800'
+                      }`}
+                    >
+                      <span className="font-mono text-gray-200 truncate">{suggestion.label}</span>
+                      <span className="ml-4 text-xs text-gray-400 flex-shrink-0">{suggestion.description}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <input
+              ref={inputRef}
+              type="text"
+              value={inputMessage}
+              onChange={(e) => handleInputChange(e.target.value)}
+              onKeyDown={handleInputKeyDown}
+              placeholder={selectedDocumentName ? "Ask a question, or type / for commands..." : "Upload a document first..."}
+              disabled={!selectedDocumentName}
+              className="w-full px-5 py-3.5 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-600 disabled:cursor-not-allowed font-medium"
+            />
+          </div>
+          {isLoading && (
+            <button
+              type="button"
+              onClick={onStop}
+              className="px-6 py-3.5 bg-red-600 text-white rounded-lg hover:bg-red-700 focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors font-medium"
+              title="Stop generating (queued questions wait until you resume)"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          )}
+          {isQueuePaused && queuedMessageIds.length > 0 && (
+            <button
+              type="button"
+              onClick={onResumeQueue}
+              className="px-6 py-3.5 bg-gray-600 text-white rounded-lg hover:bg-gray-500 focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-colors font-medium"
+              title="Resume the question queue"
+            >
+              <Play className="w-5 h-5" />
+            </button>
+          )}
           <button
             type="submit"
-            disabled={!inputMessage.trim() || !selectedDocumentName || isLoading}
+            disabled={!inputMessage.trim() || !selectedDocumentName}
             className="px-6 py-3.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+            title={isLoading ? 'Add to the question queue' : undefined}
           >
             <Send className="w-5 h-5" />
           </button>
         </form>
+        {commandError && (
+          <p className="flex items-center space-x-2 text-sm text-red-400 mt-2">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{commandError}</span>
+          </p>
+        )}
       </div>
     </div>
   );
@@ -1,29 +1,78 @@
 import React from 'react';
 import { ChatInterface } from './ChatInterface';
 import { KnowledgeGraph } from './KnowledgeGraph';
-import { ChatMessage, Document } from '../types';
+import { ChatSessionList } from './ChatSessionList';
+import { MessageSearch } from './MessageSearch';
+import { ArchivedMessage } from '../services/chatSessionService';
+import { ChatMessage, ChatMessageFeedback, ChatSession, Document, KnowledgeGraphData } from '../types';
 import { FileText } from 'lucide-react';
 
 interface ChatPageProps {
   messages: ChatMessage[];
   onSendMessage: (message: string) => void;
+  onStop: () => void;
+  onResumeQueue: () => void;
+  onRetry: (messageId: string) => void;
+  onRefresh: (messageId: string) => void;
+  onRegenerate: (messageId: string) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onSelectVariant: (messageId: string, variantIndex: number) => void;
+  onRateMessage: (messageId: string, rating: ChatMessageFeedback['rating'], comment?: string) => Promise<void>;
+  onCancelQueued: (messageId: string) => void;
+  onMoveQueued: (messageId: string, direction: -1 | 1) => void;
   isLoading: boolean;
-  selectedDocument?: Document;
+  isQueuePaused: boolean;
+  selectedDocumentIds: string[];
   documents: Document[];
   onDocumentSelect: (documentId: string) => void;
-  knowledgeGraphData?: any;
+  onDocumentToggle: (documentId: string) => void;
+  knowledgeGraphData?: KnowledgeGraphData | null;
+  sessions: ChatSession[];
+  currentSessionId?: string;
+  currentSession?: ChatSession | null;
+  focusedMessageId?: string | null;
+  onOpenSearchResult: (result: ArchivedMessage) => void;
+  onNewSession: () => void;
+  onResumeSession: (sessionId: string) => void;
+  onRenameSession: (sessionId: string, title: string) => void;
+  onDeleteSession: (sessionId: string) => void;
 }
 
 export const ChatPage: React.FC<ChatPageProps> = ({
   messages,
   onSendMessage,
+  onStop,
+  onResumeQueue,
+  onRetry,
+  onRefresh,
+  onRegenerate,
+  onEditMessage,
+  onSelectVariant,
+  onRateMessage,
+  onCancelQueued,
+  onMoveQueued,
   isLoading,
-  selectedDocument,
+  isQueuePaused,
+  selectedDocumentIds,
   documents,
   onDocumentSelect,
+  onDocumentToggle,
   knowledgeGraphData,
+  sessions,
+  currentSessionId,
+  currentSession,
+  focusedMessageId,
+  onOpenSearchResult,
+  onNewSession,
+  onResumeSession,
+  onRenameSession,
+  onDeleteSession,
 }) => {
   const [showKnowledgeGraph, setShowKnowledgeGraph] = React.useState(false);
+  const primaryDocumentId = selectedDocumentIds[0];
+  const selectedDocuments = selectedDocumentIds
+    .map(id => documents.find(doc => doc.id === id))
+    .filter((doc): doc is Document => !!doc);
 
   const handleSuggestedQuestion = (question: string) => {
     setShowKnowledgeGraph(false);
@@ -67,30 +116,59 @@ export const ChatPage: React.FC<ChatPageProps> = ({
 
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Document Selector */}
-        <div className="lg:col-span-1">
+        <div className="lg:col-span-1 space-y-6">
+          <MessageSearch documents={documents} onOpenResult={onOpenSearchResult} />
           <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
-            <h3 className="text-lg font-semibold text-white mb-4">Select Document</h3>
+            <h3 className="text-lg font-semibold text-white mb-1">Select Documents</h3>
+            <p className="text-xs text-gray-400 mb-4">Tick additional documents to ask across all of them</p>
             
             {documents.length > 0 ? (
               <div className="space-y-2">
                 {documents.map((doc) => (
-                  <button
-                    key={doc.id}
-                    onClick={() => onDocumentSelect(doc.id)}
-                    className={`w-full p-3 rounded-lg text-left transition-colors ${
-                      selectedDocument?.id === doc.id
-                        ? 'bg-blue-600 text-white'
-                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                    }`}
-                  >
-                    <div className="flex items-center space-x-2">
-                      <FileText className="w-4 h-4 text-red-500" />
-                      <span className="text-sm font-medium truncate">{doc.name}</span>
+                  <div key={doc.id}>
+                    <div
+                      className={`flex items-start rounded-lg transition-colors ${
+                        primaryDocumentId === doc.id
+                          ? 'bg-blue-600 text-white'
+                          : selectedDocumentIds.includes(doc.id)
+                            ? 'bg-blue-900/40 text-white'
+                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedDocumentIds.includes(doc.id)}
+                        onChange={() => onDocumentToggle(doc.id)}
+                        disabled={primaryDocumentId === doc.id}
+                        className="mt-3.5 ml-3 accent-blue-500 disabled:cursor-not-allowed"
+                        title={primaryDocumentId === doc.id ? 'The primary document is always included' : 'Include in question'}
+                      />
+                      <button
+                        onClick={() => onDocumentSelect(doc.id)}
+                        className="flex-1 min-w-0 p-3 text-left"
+                      >
+                        <div className="flex items-center space-x-2">
+                          <FileText className="w-4 h-4 text-red-500" />
+                          <span className="text-sm font-medium truncate">{doc.name}</span>
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {doc.uploadedAt.toLocaleDateString()}
+                        </p>
+                      </button>
                     </div>
-                    <p className="text-xs text-gray-400 mt-1">
-                      {doc.uploadedAt.toLocaleDateString()}
-                    </p>
-                  </button>
+
+                    {/* Past chats for the primary document */}
+                    {primaryDocumentId === doc.id && (
+                      <ChatSessionList
+                        sessions={sessions}
+                        currentSessionId={currentSessionId}
+                        onNewSession={onNewSession}
+                        onResumeSession={onResumeSession}
+                        onRenameSession={onRenameSession}
+                        onDeleteSession={onDeleteSession}
+                      />
+                    )}
+                  </div>
                 ))}
               </div>
             ) : (
@@ -109,8 +187,23 @@ export const ChatPage: React.FC<ChatPageProps> = ({
             <ChatInterface
               messages={messages}
               onSendMessage={onSendMessage}
+              onStop={onStop}
+              onResumeQueue={onResumeQueue}
+              onRetry={onRetry}
+              onRefresh={onRefresh}
+              onRegenerate={onRegenerate}
+              onEditMessage={onEditMessage}
+              onSelectVariant={onSelectVariant}
+              onRateMessage={onRateMessage}
+              onCancelQueued={onCancelQueued}
+              onMoveQueued={onMoveQueued}
               isLoading={isLoading}
-              selectedDocumentName={selectedDocument?.name}
+              isQueuePaused={isQueuePaused}
+              selectedDocumentName={selectedDocuments.map(doc => doc.name).join(', ')}
+              documents={documents}
+              selectedDocuments={selectedDocuments}
+              session={currentSession}
+              focusedMessageId={focusedMessageId}
             />
           </div>
         </div>
@@ -118,7 +211,7 @@ export const ChatPage: React.FC<ChatPageProps> = ({
 
       {/* Knowledge Graph Modal */}
       <KnowledgeGraph
-        graphData={knowledgeGraphData}
+        graphData={knowledgeGraphData || undefined}
         onQuestionClick={handleSuggestedQuestion}
         isVisible={showKnowledgeGraph}
         onToggle={() => setShowKnowledgeGraph(!showKnowledgeGraph)}
@@ -0,0 +1,116 @@
+import React from 'react';
+import { MessageSquare, Pencil, Trash2, Plus, Check, X } from 'lucide-react';
+import { ChatSession } from '../types';
+
+interface ChatSessionListProps {
+  sessions: ChatSession[];
+  currentSessionId?: string;
+  onNewSession: () => void;
+  onResumeSession: (sessionId: string) => void;
+  onRenameSession: (sessionId: string, title: string) => void;
+  onDeleteSession: (sessionId: string) => void;
+}
+
+export const ChatSessionList: React.FC<ChatSessionListProps> = ({
+  sessions,
+  currentSessionId,
+  onNewSession,
+  onResumeSession,
+  onRenameSession,
+  onDeleteSession,
+}) => {
+  const [editingSessionId, setEditingSessionId] = React.useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = React.useState('');
+
+  const startEditing = (session: ChatSession) => {
+    setEditingSessionId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  const saveTitle = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (editingSessionId && editingTitle.trim()) {
+      onRenameSession(editingSessionId, editingTitle.trim());
+    }
+    setEditingSessionId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    if (window.confirm(`Delete the chat "${session.title}"?`)) {
+      onDeleteSession(session.id);
+    }
+  };
+
+  return (
+    <div className="mt-2 ml-3 pl-3 border-l border-gray-600 space-y-1">
+      <button
+        onClick={onNewSession}
+        className="w-full flex items-center space-x-2 px-2 py-1.5 rounded-md text-xs text-blue-300 hover:bg-gray-700 transition-colors"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        <span>New chat</span>
+      </button>
+
+      {sessions.map((session) => (
+        <div
+          key={session.id}
+          className={`group flex items-center rounded-md text-xs transition-colors ${
+            session.id === currentSessionId
+              ? 'bg-gray-700 text-white'
+              : 'text-gray-400 hover:bg-gray-700 hover:text-gray-200'
+          }`}
+        >
+          {editingSessionId === session.id ? (
+            <form onSubmit={saveTitle} className="flex items-center flex-1 px-2 py-1 space-x-1">
+              <input
+                autoFocus
+                value={editingTitle}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setEditingSessionId(null)}
+                className="flex-1 min-w-0 px-1.5 py-0.5 bg-gray-800 border border-gray-600 rounded text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <button type="submit" className="p-0.5 text-green-400 hover:text-green-300" title="Save name">
+                <Check className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditingSessionId(null)}
+                className="p-0.5 text-gray-400 hover:text-gray-200"
+                title="Cancel"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </form>
+          ) : (
+            <>
+              <button
+                onClick={() => onResumeSession(session.id)}
+                className="flex items-center flex-1 min-w-0 space-x-2 px-2 py-1.5 text-left"
+                title={`${session.messages.length} messages · ${session.updatedAt.toLocaleString()}`}
+              >
+                <MessageSquare className="w-3.5 h-3.5 flex-shrink-0" />
+                <span className="truncate">{session.title}</span>
+              </button>
+              <div className="hidden group-hover:flex items-center pr-1">
+                <button
+                  onClick={() => startEditing(session)}
+                  className="p-1 text-gray-400 hover:text-white"
+                  title="Rename chat"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  title="Delete chat"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+
+interface CopyButtonProps {
+  text: string;
+  title?: string;
+  className?: string;
+}
+
+const COPIED_FEEDBACK_MS = 1500;
+
+export const CopyButton: React.FC<CopyButtonProps> = ({ text, title = 'Copy to clipboard', className = '' }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className={`p-0.5 rounded hover:bg-black/20 transition-colors ${className}`}
+      title={copied ? 'Copied' : title}
+    >
+      {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+    </button>
+  );
+};
@@ -1,68 +1,63 @@
 import React, { useCallback } from 'react';
-import { Upload, FileText, AlertCircle } from 'lucide-react';
-import { googleDriveService } from '../services/googleDriveService';
-import { Document } from '../types';
+import { Upload, FileText, AlertCircle, X, RotateCcw, CheckCircle } from 'lucide-react';
+import { MAX_UPLOAD_BYTES } from '../services/googleDriveService';
+import { collectDroppedFiles } from '../services/droppedFiles';
+import { UploadQueue, UploadQueueItem } from '../hooks/useUploadQueue';
 
 interface DocumentUploadProps {
-  onDocumentUpload: (document: Document) => void;
+  // Owned by App, so uploads continue after leaving the documents page
+  uploadQueue: UploadQueue;
+  // Engagement folder new uploads go into; the app folder when undefined
+  folderId?: string;
 }
 
-export const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentUpload }) => {
-  const [isUploading, setIsUploading] = React.useState(false);
-  const [uploadError, setUploadError] = React.useState<string | null>(null);
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 
-  const handleFileUpload = useCallback(async (files: FileList) => {
-    if (!files.length) return;
+const progressPercent = (item: UploadQueueItem) =>
+  item.status === 'done'
+    ? 100
+    : item.progress && item.progress.totalBytes > 0
+      ? Math.round((item.progress.uploadedBytes / item.progress.totalBytes) * 100)
+      : 0;
 
-    const file = files[0];
-    
-    // Check if it's a PDF
-    if (file.type !== 'application/pdf') {
-      setUploadError('Only PDF files are supported');
-      return;
-    }
+const statusLabel = (item: UploadQueueItem) => {
+  switch (item.status) {
+    case 'queued':
+      return 'Waiting...';
+    case 'uploading':
+      return item.progress?.resuming ? 'Resuming...' : `${progressPercent(item)}%`;
+    case 'done':
+      return 'Uploaded';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'error':
+      return 'Failed';
+  }
+};
 
-    setIsUploading(true);
-    setUploadError(null);
+export const DocumentUpload: React.FC<DocumentUploadProps> = ({ uploadQueue, folderId }) => {
+  const [skippedCount, setSkippedCount] = React.useState(0);
+  const [isDragging, setIsDragging] = React.useState(false);
 
-    try {
-      // Upload to Google Drive
-      const driveFile = await googleDriveService.uploadFile(file);
-      
-      // Create document object
-      const document: Document = {
-        id: driveFile.id,
-        name: driveFile.name,
-        size: file.size,
-        type: file.type,
-        uploadedAt: new Date(),
-        driveFileId: driveFile.id,
-        webViewLink: driveFile.webViewLink,
-        webContentLink: driveFile.webContentLink,
-        shareableLink: `https://drive.google.com/uc?id=${driveFile.id}&export=download`,
-        metadata: {
-          driveId: driveFile.id,
-          createdTime: new Date().toISOString(),
-        },
-      };
+  const { items, addFiles, retry, cancel, remove, clearFinished } = uploadQueue;
+  const doneCount = items.filter(item => item.status === 'done').length;
 
-      onDocumentUpload(document);
-    } catch (error) {
-      console.error('Upload failed:', error);
-      setUploadError(error instanceof Error ? error.message : 'Upload failed');
-    } finally {
-      setIsUploading(false);
-    }
-  }, [onDocumentUpload]);
+  const handleFiles = useCallback((files: File[]) => {
+    if (!files.length) return;
+    setSkippedCount(addFiles(files, folderId));
+  }, [addFiles, folderId]);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
-    const files = e.dataTransfer.files;
-    handleFileUpload(files);
-  }, [handleFileUpload]);
+    setIsDragging(false);
+    // Dropped folders are expanded into the files they contain
+    handleFiles(await collectDroppedFiles(e.dataTransfer));
+  }, [handleFiles]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
+    setIsDragging(true);
   }, []);
 
   return (
@@ -71,45 +66,137 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentUpload
       <div
         onDrop={handleDrop}
         onDragOver={handleDragOver}
-        className="border-2 border-dashed border-gray-600 rounded-lg p-8 text-center hover:border-gray-500 transition-colors"
+        onDragLeave={() => setIsDragging(false)}
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-900/10' : 'border-gray-600 hover:border-gray-500'
+        }`}
       >
         <div className="flex flex-col items-center space-y-4">
           <div className="p-4 bg-gray-700 rounded-full">
             <Upload className="w-8 h-8 text-gray-400" />
           </div>
-          
+
           <div>
-            <h3 className="text-lg font-semibold text-white mb-2">Upload PDF Document</h3>
-            <p className="text-gray-400 mb-4">Drag and drop your PDF file here, or click to browse</p>
-            
+            <h3 className="text-lg font-semibold text-white mb-2">Upload PDF Documents</h3>
+            <p className="text-gray-400 mb-4">Drag and drop PDF files or folders here, or click to browse</p>
+
             <label className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 cursor-pointer transition-colors">
               <FileText className="w-4 h-4 mr-2" />
-              Choose File
+              Choose Files
               <input
                 type="file"
                 accept=".pdf"
-                onChange={(e) => e.target.files && handleFileUpload(e.target.files)}
+                multiple
+                onChange={(e) => {
+                  if (e.target.files) handleFiles(Array.from(e.target.files));
+                  // Allow choosing the same files again, e.g. after removing them from the list
+                  e.target.value = '';
+                }}
                 className="hidden"
-                disabled={isUploading}
               />
             </label>
           </div>
         </div>
       </div>
 
-      {/* Upload Status */}
-      {isUploading && (
-        <div className="flex items-center space-x-3 p-4 bg-blue-900/20 border border-blue-700/30 rounded-lg">
-          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
-          <span className="text-blue-200">Uploading to Google Drive...</span>
+      {/* Skipped Files */}
+      {skippedCount > 0 && (
+        <div className="flex items-center space-x-3 p-4 bg-yellow-900/20 border border-yellow-700/30 rounded-lg">
+          <AlertCircle className="w-5 h-5 text-yellow-400" />
+          <span className="flex-1 text-yellow-200">
+            Skipped {skippedCount} file{skippedCount === 1 ? '' : 's'} that {skippedCount === 1 ? "isn't a PDF" : "aren't PDFs"}.
+          </span>
+          <button
+            onClick={() => setSkippedCount(0)}
+            className="p-1 rounded text-yellow-200 hover:bg-yellow-900/40 transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
         </div>
       )}
 
-      {/* Error Message */}
-      {uploadError && (
-        <div className="flex items-center space-x-3 p-4 bg-red-900/20 border border-red-700/30 rounded-lg">
-          <AlertCircle className="w-5 h-5 text-red-400" />
-          <span className="text-red-200">{uploadError}</span>
+      {/* Upload Queue */}
+      {items.length > 0 && (
+        <div className="border border-gray-700 rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2 bg-gray-900 text-sm">
+            <span className="text-gray-300">
+              {doneCount} of {items.length} uploaded
+            </span>
+            <button
+              onClick={clearFinished}
+              disabled={doneCount === 0}
+              className="text-gray-400 hover:text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              Clear finished
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-700 max-h-80 overflow-y-auto">
+            {items.map(item => (
+              <li key={item.id} className="px-4 py-3 space-y-2">
+                <div className="flex items-center space-x-3">
+                  {item.status === 'done' ? (
+                    <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                  ) : item.status === 'error' ? (
+                    <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+                  ) : (
+                    <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  )}
+                  <span className="flex-1 min-w-0 truncate text-sm text-white" title={item.file.name}>
+                    {item.file.name}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">{formatFileSize(item.file.size)}</span>
+                  <span className={`text-xs w-20 text-right flex-shrink-0 tabular-nums ${
+                    item.status === 'error' ? 'text-red-400' : item.status === 'done' ? 'text-green-400' : 'text-gray-400'
+                  }`}>
+                    {statusLabel(item)}
+                  </span>
+                  <div className="flex items-center justify-end space-x-1 w-14 flex-shrink-0">
+                    {(item.status === 'error' || item.status === 'cancelled') && item.retryable && (
+                      <button
+                        onClick={() => retry(item.id)}
+                        className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                        title="Retry upload"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    )}
+                    {item.status === 'queued' || item.status === 'uploading' ? (
+                      <button
+                        onClick={() => cancel(item.id)}
+                        className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                        title="Cancel upload"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => remove(item.id)}
+                        className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                        title="Remove from list"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {item.status === 'uploading' && (
+                  <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all ${item.progress?.resuming ? 'bg-yellow-500' : 'bg-blue-500'}`}
+                      style={{ width: `${progressPercent(item)}%` }}
+                    />
+                  </div>
+                )}
+                {item.status === 'uploading' && item.progress?.resuming && (
+                  <p className="text-xs text-yellow-300">Connection lost. The upload continues where it left off once Drive is reachable.</p>
+                )}
+                {item.status === 'error' && item.error && (
+                  <p className="text-xs text-red-300">{item.error}</p>
+                )}
+              </li>
+            ))}
+          </ul>
         </div>
       )}
 
@@ -117,8 +204,8 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentUpload
       <div className="text-sm text-gray-400">
         <p>• Only PDF files are supported</p>
         <p>• Files are uploaded to your Google Drive</p>
-        <p>• Maximum file size: 100MB</p>
+        <p>• Maximum file size: {MAX_UPLOAD_BYTES / 1024 / 1024}MB</p>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
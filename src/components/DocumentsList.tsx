@@ -1,25 +1,140 @@
 import React from 'react';
-import { FileText, Trash2, MessageSquare, Calendar, HardDrive } from 'lucide-react';
+import { FileText, Trash2, MessageSquare, Calendar, HardDrive, Folder, FolderPlus, ChevronRight, Search, X, AlertCircle } from 'lucide-react';
 import { DocumentUpload } from './DocumentUpload';
+import { DocumentQuery, DriveFolder } from '../services/googleDriveService';
+import { settingsService } from '../services/settingsService';
+import { useDocumentListing } from '../hooks/useDocumentListing';
+import { UploadQueue } from '../hooks/useUploadQueue';
 import { Document } from '../types';
 
+const SEARCH_DELAY_MS = 400;
+
 interface DocumentsListProps {
   documents: Document[];
+  // The app's Drive folder; documents are only listed once it is known
+  appFolderId?: string;
+  // Engagement folders inside the app's Drive folder
+  folders: DriveFolder[];
+  // Why the app folder couldn't be opened; while it is unknown and there is no error it is still loading
+  foldersError?: string | null;
+  onReloadFolders: () => void;
+  // PDFs uploaded before the app had its own folder, still in the root of My Drive
+  rootUploadCount: number;
+  onMoveRootUploads: () => Promise<void>;
+  onDocumentsLoaded: (documents: Document[]) => void;
+  onCreateFolder: (name: string) => Promise<DriveFolder>;
   onDocumentRemove: (documentId: string) => void;
   selectedDocumentId?: string;
   onDocumentSelect: (documentId: string) => void;
-  onDocumentUpload: (document: Document) => void;
+  uploadQueue: UploadQueue;
   onStartChatting: () => void;
 }
 
 export const DocumentsList: React.FC<DocumentsListProps> = ({
   documents,
+  appFolderId,
+  folders,
+  foldersError,
+  onReloadFolders,
+  rootUploadCount,
+  onMoveRootUploads,
+  onDocumentsLoaded,
+  onCreateFolder,
   onDocumentRemove,
   selectedDocumentId,
   onDocumentSelect,
-  onDocumentUpload,
+  uploadQueue,
   onStartChatting,
 }) => {
+  // Engagement folder being browsed; null for the top level of the app folder
+  const [currentFolderId, setCurrentFolderId] = React.useState<string | null>(null);
+  const [newFolderName, setNewFolderName] = React.useState<string | null>(null);
+  const [folderError, setFolderError] = React.useState<string | null>(null);
+  const [isMovingRootUploads, setIsMovingRootUploads] = React.useState(false);
+  const [moveError, setMoveError] = React.useState<string | null>(null);
+  const currentFolder = folders.find(folder => folder.id === currentFolderId) || null;
+  const appFolderName = settingsService.getSettings().driveFolderName.trim() || settingsService.getDefaults().driveFolderName;
+
+  const [searchText, setSearchText] = React.useState('');
+  const [debouncedSearchText, setDebouncedSearchText] = React.useState('');
+  const [searchIn, setSearchIn] = React.useState<DocumentQuery['searchIn']>('name');
+  const [createdFrom, setCreatedFrom] = React.useState('');
+  const [createdTo, setCreatedTo] = React.useState('');
+  const isFiltering = !!debouncedSearchText.trim() || !!createdFrom || !!createdTo;
+
+  // Search once the user pauses typing rather than on every keystroke
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchText(searchText), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  // Searching at the top level covers every engagement; inside an engagement it stays within that folder
+  const query: DocumentQuery | null = appFolderId
+    ? {
+        folderId: currentFolder?.id ?? (isFiltering ? undefined : appFolderId),
+        folderIds: currentFolder || !isFiltering ? undefined : [appFolderId, ...folders.map(folder => folder.id)],
+        text: debouncedSearchText.trim() || undefined,
+        searchIn,
+        createdFrom: createdFrom || undefined,
+        createdTo: createdTo || undefined,
+      }
+    : null;
+  const listing = useDocumentListing(query, onDocumentsLoaded);
+
+  const documentsById = new Map(documents.map(document => [document.id, document]));
+  const visibleDocuments = listing.documentIds
+    .map(id => documentsById.get(id))
+    .filter((document): document is Document => !!document);
+  const visibleFolders = currentFolder || isFiltering ? [] : folders;
+  const folderName = (document: Document) =>
+    folders.find(folder => folder.id === document.metadata?.folderId)?.name;
+
+  const clearFilters = () => {
+    setSearchText('');
+    setDebouncedSearchText('');
+    setCreatedFrom('');
+    setCreatedTo('');
+  };
+
+  // New uploads show up at the top of the folder they went into. Ones that finished while this page
+  // was closed are part of the listing already.
+  const listedFolderId = currentFolder?.id ?? appFolderId;
+  const { addDocument } = listing;
+  React.useEffect(() => {
+    if (isFiltering) return;
+    uploadQueue.items
+      .filter(item => item.driveFileId && (item.folderId ?? appFolderId) === listedFolderId)
+      .forEach(item => addDocument(item.driveFileId!));
+  }, [uploadQueue.items, isFiltering, appFolderId, listedFolderId, addDocument]);
+
+  const handleMoveRootUploads = async () => {
+    setIsMovingRootUploads(true);
+    setMoveError(null);
+    try {
+      await onMoveRootUploads();
+      listing.reload();
+    } catch (error) {
+      console.error('Failed to move earlier uploads:', error);
+      setMoveError(error instanceof Error ? error.message : 'Failed to move the documents');
+    } finally {
+      setIsMovingRootUploads(false);
+    }
+  };
+
+  const handleCreateFolder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newFolderName?.trim()) return;
+    try {
+      const folder = await onCreateFolder(newFolderName.trim());
+      setNewFolderName(null);
+      setFolderError(null);
+      setCurrentFolderId(folder.id);
+    } catch (error) {
+      console.error('Failed to create folder:', error);
+      setFolderError(error instanceof Error ? error.message : 'Failed to create the folder');
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -58,27 +173,202 @@ export const DocumentsList: React.FC<DocumentsListProps> = ({
 
       {/* Upload Section */}
       <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
-        <h2 className="text-xl font-semibold text-white mb-4">Upload New Document</h2>
-        <DocumentUpload onDocumentUpload={onDocumentUpload} />
+        <h2 className="text-xl font-semibold text-white mb-4">
+          Upload to {currentFolder ? currentFolder.name : appFolderName}
+        </h2>
+        <DocumentUpload uploadQueue={uploadQueue} folderId={currentFolder?.id} />
       </div>
 
       {/* Documents List */}
       <div className="bg-gray-800 rounded-xl border border-gray-700">
-        <div className="p-6 border-b border-gray-700">
-          <h2 className="text-xl font-semibold text-white">Your Documents ({documents.length})</h2>
+        <div className="p-6 border-b border-gray-700 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-white">
+              Your Documents ({visibleDocuments.length}{listing.hasMore ? '+' : ''})
+            </h2>
+            {!currentFolder && newFolderName === null && (
+              <button
+                onClick={() => setNewFolderName('')}
+                className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-300 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                <FolderPlus className="w-4 h-4" />
+                <span>New engagement</span>
+              </button>
+            )}
+          </div>
+
+          {/* Breadcrumb */}
+          <nav className="flex items-center space-x-1 text-sm">
+            <button
+              onClick={() => setCurrentFolderId(null)}
+              className={currentFolder ? 'text-blue-400 hover:underline' : 'text-gray-300 font-medium'}
+            >
+              {appFolderName}
+            </button>
+            {currentFolder && (
+              <>
+                <ChevronRight className="w-4 h-4 text-gray-500" />
+                <span className="text-gray-300 font-medium">{currentFolder.name}</span>
+              </>
+            )}
+          </nav>
+
+          {newFolderName !== null && (
+            <form onSubmit={handleCreateFolder} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                placeholder="Engagement name"
+                autoFocus
+                className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!newFolderName.trim()}
+                className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Create
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setNewFolderName(null);
+                  setFolderError(null);
+                }}
+                className="px-3 py-2 text-sm text-gray-300 rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+            </form>
+          )}
+          {folderError && <p className="text-sm text-red-400">{folderError}</p>}
+
+          {/* Search and Filters */}
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[14rem]">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                placeholder={currentFolder ? `Search ${currentFolder.name}...` : 'Search all documents...'}
+                className="w-full pl-9 pr-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <select
+              value={searchIn}
+              onChange={(e) => setSearchIn(e.target.value as DocumentQuery['searchIn'])}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="What to search"
+            >
+              <option value="name">File names</option>
+              <option value="fullText">Full text</option>
+            </select>
+            <label className="flex items-center space-x-2 text-sm text-gray-400">
+              <span>Uploaded from</span>
+              <input
+                type="date"
+                value={createdFrom}
+                max={createdTo || undefined}
+                onChange={(e) => setCreatedFrom(e.target.value)}
+                className="px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-400">
+              <span>to</span>
+              <input
+                type="date"
+                value={createdTo}
+                min={createdFrom || undefined}
+                onChange={(e) => setCreatedTo(e.target.value)}
+                className="px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            {(searchText || createdFrom || createdTo) && (
+              <button
+                onClick={clearFilters}
+                className="flex items-center space-x-1 px-2 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                <X className="w-4 h-4" />
+                <span>Clear</span>
+              </button>
+            )}
+          </div>
         </div>
 
-        {documents.length === 0 ? (
+        {/* Earlier uploads went to the root of My Drive */}
+        {rootUploadCount > 0 && !currentFolder && (
+          <div className="flex items-center space-x-3 px-6 py-4 bg-yellow-900/20 border-b border-yellow-700/30 text-sm">
+            <AlertCircle className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+            <span className="flex-1 text-yellow-200">
+              {rootUploadCount} PDF{rootUploadCount === 1 ? '' : 's'} uploaded by an earlier version of this app{' '}
+              {rootUploadCount === 1 ? 'is' : 'are'} still in the root of your My Drive, so {rootUploadCount === 1 ? "it isn't" : "they aren't"} listed here.
+              {moveError && <span className="block text-red-300 mt-1">{moveError}</span>}
+            </span>
+            <button
+              onClick={handleMoveRootUploads}
+              disabled={isMovingRootUploads}
+              className="px-3 py-2 bg-yellow-700/40 text-yellow-100 rounded-lg hover:bg-yellow-700/60 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex-shrink-0"
+            >
+              {isMovingRootUploads ? 'Moving...' : `Move to ${appFolderName}`}
+            </button>
+          </div>
+        )}
+
+        {visibleFolders.length > 0 && (
+          <div className="divide-y divide-gray-700 border-b border-gray-700">
+            {visibleFolders.map(folder => (
+              <button
+                key={folder.id}
+                onClick={() => setCurrentFolderId(folder.id)}
+                className="w-full flex items-center space-x-4 px-6 py-4 text-left hover:bg-gray-750 transition-colors"
+              >
+                <div className="p-3 bg-yellow-900/30 rounded-lg">
+                  <Folder className="w-6 h-6 text-yellow-400" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-lg font-semibold text-white truncate">{folder.name}</h3>
+                  <p className="text-sm text-gray-400">Created {formatDate(new Date(folder.createdTime))}</p>
+                </div>
+                <ChevronRight className="w-5 h-5 text-gray-500" />
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!appFolderId ? (
+          foldersError ? (
+            <div className="flex items-center justify-center space-x-3 p-12 text-sm text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{foldersError}</span>
+              <button onClick={onReloadFolders} className="underline hover:text-red-200">
+                Try again
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center space-x-3 p-12 text-sm text-gray-400">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
+              <span>Opening the {appFolderName} folder in Google Drive...</span>
+            </div>
+          )
+        ) : visibleDocuments.length === 0 && visibleFolders.length === 0 && !listing.isLoading && !listing.error ? (
           <div className="p-12 text-center">
             <div className="p-4 bg-gray-700 rounded-full w-16 h-16 mx-auto mb-4 flex items-center justify-center">
               <FileText className="w-8 h-8 text-gray-400" />
             </div>
-            <h3 className="text-lg font-semibold text-white mb-2">No documents yet</h3>
-            <p className="text-gray-400">Upload your first PDF document to get started</p>
+            <h3 className="text-lg font-semibold text-white mb-2">
+              {isFiltering
+                ? 'No documents match your search'
+                : currentFolder ? 'No documents in this engagement yet' : 'No documents yet'}
+            </h3>
+            <p className="text-gray-400">
+              {isFiltering ? 'Try other search terms or dates' : 'Upload your first PDF document to get started'}
+            </p>
           </div>
         ) : (
           <div className="divide-y divide-gray-700">
-            {documents.map((document) => (
+            {visibleDocuments.map((document) => (
               <div
                 key={document.id}
                 className={`p-6 hover:bg-gray-750 transition-colors ${
@@ -102,6 +392,13 @@ export const DocumentsList: React.FC<DocumentsListProps> = ({
                           <Calendar className="w-4 h-4" />
                           <span>{formatDate(document.uploadedAt)}</span>
                         </div>
+                        {/* Search results span engagements, so say where each one is */}
+                        {isFiltering && !currentFolder && folderName(document) && (
+                          <div className="flex items-center space-x-1">
+                            <Folder className="w-4 h-4" />
+                            <span className="truncate">{folderName(document)}</span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -131,6 +428,31 @@ export const DocumentsList: React.FC<DocumentsListProps> = ({
             ))}
           </div>
         )}
+
+        {/* Paging */}
+        {listing.error ? (
+          <div className="flex items-center justify-center space-x-3 p-4 border-t border-gray-700 text-sm text-red-300">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{listing.error}</span>
+            <button onClick={listing.reload} className="underline hover:text-red-200">
+              Try again
+            </button>
+          </div>
+        ) : listing.isLoading ? (
+          <div className="flex items-center justify-center space-x-3 p-4 border-t border-gray-700 text-sm text-gray-400">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
+            <span>Loading documents...</span>
+          </div>
+        ) : listing.hasMore && (
+          <div className="p-4 border-t border-gray-700 text-center">
+            <button
+              onClick={listing.loadMore}
+              className="px-4 py-2 text-sm text-gray-300 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Load more
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
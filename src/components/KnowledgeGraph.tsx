@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React from 'react';
 import { Network, Eye, Brain, HelpCircle } from 'lucide-react';
 
 interface KnowledgeGraphProps {
@@ -42,14 +42,26 @@ interface KnowledgeGraphProps {
   onToggle: () => void;
 }
 
+// Human-readable name for the component that produced the graph
+const describeSource = (source?: string) => {
+  switch (source) {
+    case 'workflow':
+      return 'n8n Workflow';
+    case 'google-kg':
+      return 'Google Knowledge Graph';
+    case 'fallback-test':
+      return 'Fallback Test Data';
+    default:
+      return 'Enhanced Text Analysis';
+  }
+};
+
 export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
   graphData,
   onQuestionClick,
   isVisible,
   onToggle,
 }) => {
-  const graphRef = useRef<HTMLDivElement>(null);
-
   // Debug logging
   console.log('🎨 KnowledgeGraph component received props:', {
     graphData,
@@ -75,55 +87,8 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
     edgeCount: graph?.edges?.length || 0
   });
 
-  useEffect(() => {
-    if (isVisible && graph && graphRef.current) {
-      // Here you would integrate with a graph visualization library like D3.js, vis.js, or sigma.js
-      // For now, we'll show a placeholder
-      renderGraph();
-    }
-  }, [isVisible, graph]);
-
-  const renderGraph = () => {
-    if (!graphRef.current || !graph) return;
-
-    // Placeholder for actual graph rendering
-    // You would use a library like D3.js or vis.js here
-    const nodeCount = graph.nodes?.length || 0;
-    const edgeCount = graph.edges?.length || 0;
-    const sourceType = metadata?.source || 'unknown';
-    
-    console.log('Rendering graph with:', { nodeCount, edgeCount, sourceType });
-    
-    graphRef.current.innerHTML = `
-      <div class="p-6 h-full">
-        <div class="mb-6">
-          <h3 class="text-lg font-semibold text-white mb-2">Knowledge Graph Visualization</h3>
-          <p class="text-gray-400 text-sm">${nodeCount} entities, ${edgeCount} connections</p>
-          <p class="text-xs mt-1 ${sourceType === 'google-kg' ? 'text-green-400' : 'text-yellow-400'}">
-            ${sourceType === 'google-kg' ? '✓ Generated by Google Knowledge Graph' : '⚡ Enhanced text analysis'}
-          </p>
-        </div>
-        
-        <div class="grid grid-cols-2 gap-4 mb-6">
-          ${graph.nodes?.slice(0, 8).map(node => `
-            <div class="p-3 bg-gray-700 rounded-lg">
-              <div class="flex items-center space-x-2 mb-2">
-                <div class="w-3 h-3 rounded-full" style="background-color: ${node.color}"></div>
-                <span class="text-white font-medium text-sm">${node.label}</span>
-              </div>
-              ${node.type ? `<p class="text-xs text-gray-400">${node.type}</p>` : ''}
-              ${node.description ? `<p class="text-xs text-gray-300 mt-1">${node.description.substring(0, 80)}...</p>` : ''}
-            </div>
-          `).join('') || ''}
-        </div>
-        
-        <div class="text-center">
-          <p class="text-gray-400 text-sm">Interactive graph visualization would appear here</p>
-          <p class="text-gray-500 text-xs mt-1">Integration with D3.js, vis.js, or sigma.js recommended</p>
-        </div>
-      </div>
-    `;
-  };
+  const sourceType = metadata?.source || 'unknown';
+  const isGeneratedSource = sourceType === 'google-kg' || sourceType === 'workflow';
 
   if (!isVisible) {
     return (
@@ -186,17 +151,49 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
         <div className="flex-1 flex">
           {/* Graph Visualization */}
           <div className="flex-1 p-6">
-            <div
-              ref={graphRef}
-              className="w-full h-full bg-gray-900 rounded-lg border border-gray-600"
-            >
-              {/* Fallback content while graph loads */}
-              <div className="p-6 h-full flex items-center justify-center">
-                <div className="text-center">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500 mx-auto mb-4"></div>
-                  <p className="text-gray-400">Loading knowledge graph...</p>
+            <div className="w-full h-full bg-gray-900 rounded-lg border border-gray-600">
+              {graph ? (
+                // Placeholder for actual graph rendering with a library like D3.js or vis.js. Node values come
+                // from the workflow response, so they are only ever rendered as text.
+                <div className="p-6 h-full">
+                  <div className="mb-6">
+                    <h3 className="text-lg font-semibold text-white mb-2">Knowledge Graph Visualization</h3>
+                    <p className="text-gray-400 text-sm">
+                      {graph.nodes?.length || 0} entities, {graph.edges?.length || 0} connections
+                    </p>
+                    <p className={`text-xs mt-1 ${isGeneratedSource ? 'text-green-400' : 'text-yellow-400'}`}>
+                      {isGeneratedSource ? '✓ Generated by' : '⚡'} {describeSource(sourceType)}
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4 mb-6">
+                    {graph.nodes?.slice(0, 8).map(node => (
+                      <div key={node.id} className="p-3 bg-gray-700 rounded-lg">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: node.color }}></div>
+                          <span className="text-white font-medium text-sm">{node.label}</span>
+                        </div>
+                        {node.type && <p className="text-xs text-gray-400">{node.type}</p>}
+                        {node.description && (
+                          <p className="text-xs text-gray-300 mt-1">{node.description.substring(0, 80)}...</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="text-center">
+                    <p className="text-gray-400 text-sm">Interactive graph visualization would appear here</p>
+                    <p className="text-gray-500 text-xs mt-1">Integration with D3.js, vis.js, or sigma.js recommended</p>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <div className="p-6 h-full flex items-center justify-center">
+                  <div className="text-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500 mx-auto mb-4"></div>
+                    <p className="text-gray-400">Loading knowledge graph...</p>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -284,7 +281,7 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
                       <p>Entities: {metadata.entityCount}</p>
                     )}
                     {metadata.source && (
-                      <p>Source: {metadata.source === 'google-kg' ? 'Google Knowledge Graph' : 'Enhanced Text Analysis'}</p>
+                      <p>Source: {describeSource(metadata.source)}</p>
                     )}
                     {metadata.timestamp && (
                       <p>Generated: {new Date(parseInt(metadata.timestamp)).toLocaleString()}</p>
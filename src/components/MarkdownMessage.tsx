@@ -0,0 +1,90 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { Download } from 'lucide-react';
+import { CopyButton } from './CopyButton';
+import { downloadFile } from '../services/downloadFile';
+import 'highlight.js/styles/github-dark.css';
+
+interface MarkdownMessageProps {
+  content: string;
+}
+
+// Minimal view of the hast nodes react-markdown passes to custom components
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  children?: HastNode[];
+}
+
+// Plain text of a rendered markdown node, e.g. the source of a code block
+const nodeText = (node: HastNode): string =>
+  node.type === 'text' ? node.value || '' : (node.children || []).map(nodeText).join('');
+
+const findElements = (node: HastNode, tagNames: string[]): HastNode[] =>
+  (node.children || []).flatMap(child =>
+    child.tagName && tagNames.includes(child.tagName) ? [child] : findElements(child, tagNames)
+  );
+
+const escapeCsvCell = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Convert a rendered GFM table into CSV, one line per row
+const tableToCsv = (table: HastNode): string =>
+  findElements(table, ['tr'])
+    .map(row => findElements(row, ['th', 'td']).map(cell => escapeCsvCell(nodeText(cell).trim())).join(','))
+    .join('\n');
+
+const components: Components = {
+  pre: ({ node, children }) => (
+    <div className="relative group my-3">
+      <CopyButton
+        text={nodeText(node as HastNode).replace(/\n$/, '')}
+        title="Copy code"
+        className="absolute top-2 right-2 text-gray-400 bg-gray-800/80 opacity-0 group-hover:opacity-100"
+      />
+      <pre className="overflow-x-auto rounded-lg bg-gray-950 border border-gray-700 p-3 text-xs">{children}</pre>
+    </div>
+  ),
+  code: ({ inline, className, children }) =>
+    inline ? (
+      <code className="px-1 py-0.5 rounded bg-gray-700 text-gray-100 text-[0.85em]">{children}</code>
+    ) : (
+      <code className={className}>{children}</code>
+    ),
+  table: ({ node, children }) => (
+    <div className="my-3">
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm border-collapse">{children}</table>
+      </div>
+      <button
+        type="button"
+        onClick={() => downloadFile(tableToCsv(node as HastNode), 'table.csv', 'text/csv;charset=utf-8')}
+        className="flex items-center space-x-1 mt-1 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+      >
+        <Download className="w-3 h-3" />
+        <span>Download CSV</span>
+      </button>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th style={style} className="border border-gray-600 bg-gray-700 px-3 py-1.5 text-left font-semibold">{children}</th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="border border-gray-700 px-3 py-1.5 align-top">{children}</td>
+  ),
+};
+
+// Assistant answers: GitHub-flavoured markdown with highlighted code, copyable code blocks
+// and tables that can be downloaded as CSV
+export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ content }) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm]}
+    rehypePlugins={[[rehypeHighlight, { ignoreMissing: true }]]}
+    components={components}
+  >
+    {content}
+  </ReactMarkdown>
+);
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Activity, AlertTriangle, ChevronRight } from 'lucide-react';
+import { ChatMessageDiagnostics } from '../types';
+import { getQABackends } from '../services/qaBackend';
+
+interface MessageDiagnosticsProps {
+  diagnostics: ChatMessageDiagnostics;
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Collapsible request details for an answer, so support can triage slow or bad answers without devtools
+export const MessageDiagnostics: React.FC<MessageDiagnosticsProps> = ({ diagnostics }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { tokenUsage } = diagnostics;
+  const backendLabel = getQABackends().find(backend => backend.id === diagnostics.backend)?.label || diagnostics.backend;
+
+  const rows: Array<[string, string]> = [
+    ['Backend', backendLabel],
+    ['Source', diagnostics.cached ? 'Local answer cache' : diagnostics.streamed ? 'Streamed response' : 'Single response'],
+    ['Duration', formatDuration(diagnostics.durationMs)],
+  ];
+  if (diagnostics.timeToFirstTokenMs !== undefined) rows.push(['First token after', formatDuration(diagnostics.timeToFirstTokenMs)]);
+  if (diagnostics.httpStatus !== undefined) rows.push(['HTTP status', String(diagnostics.httpStatus)]);
+  if (diagnostics.responseBytes !== undefined) rows.push(['Response size', formatBytes(diagnostics.responseBytes)]);
+  if (tokenUsage?.promptTokens !== undefined) rows.push(['Prompt tokens', tokenUsage.promptTokens.toLocaleString()]);
+  if (tokenUsage?.completionTokens !== undefined) rows.push(['Completion tokens', tokenUsage.completionTokens.toLocaleString()]);
+  if (tokenUsage?.totalTokens !== undefined) rows.push(['Total tokens', tokenUsage.totalTokens.toLocaleString()]);
+
+  return (
+    <div className="mt-3 text-xs">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center space-x-1 text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        <ChevronRight className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+        <Activity className="w-3 h-3" />
+        <span>Diagnostics · {formatDuration(diagnostics.durationMs)}</span>
+        {diagnostics.warnings && diagnostics.warnings.length > 0 && (
+          <AlertTriangle className="w-3 h-3 text-yellow-400" />
+        )}
+      </button>
+      {isOpen && (
+        <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 p-3 bg-gray-900 border border-gray-700 rounded-lg font-mono">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-300">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+      {isOpen && diagnostics.warnings && diagnostics.warnings.length > 0 && (
+        <div className="mt-2 p-3 bg-yellow-900/20 border border-yellow-700/30 rounded-lg">
+          <p className="flex items-center space-x-1 text-yellow-300 mb-1">
+            <AlertTriangle className="w-3 h-3" />
+            <span>Response warnings</span>
+          </p>
+          <ul className="list-disc list-inside space-y-0.5 text-yellow-200 font-mono">
+            {diagnostics.warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
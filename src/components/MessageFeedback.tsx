@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { ChatMessageFeedback } from '../types';
+
+interface MessageFeedbackProps {
+  feedback?: ChatMessageFeedback;
+  onRate: (rating: ChatMessageFeedback['rating'], comment?: string) => Promise<void>;
+}
+
+export const MessageFeedback: React.FC<MessageFeedbackProps> = ({ feedback, onRate }) => {
+  const [showComment, setShowComment] = useState(false);
+  const [comment, setComment] = useState(feedback?.comment || '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (rating: ChatMessageFeedback['rating'], withComment?: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onRate(rating, withComment);
+    } catch (err) {
+      console.error('Failed to send feedback:', err);
+      setError('Your rating was saved here but could not be sent.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRate = (rating: ChatMessageFeedback['rating']) => {
+    setShowComment(true);
+    submit(rating, feedback?.comment);
+  };
+
+  const handleCommentSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!feedback) return;
+    setShowComment(false);
+    submit(feedback.rating, comment);
+  };
+
+  const buttonClass = (active: boolean) =>
+    `p-1 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active ? 'text-blue-400 bg-blue-900/40' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700'
+    }`;
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center space-x-1 text-xs text-gray-400">
+        <span className="mr-1">Was this helpful?</span>
+        <button
+          onClick={() => handleRate('up')}
+          disabled={isSubmitting}
+          className={buttonClass(feedback?.rating === 'up')}
+          title="Good answer"
+        >
+          <ThumbsUp className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => handleRate('down')}
+          disabled={isSubmitting}
+          className={buttonClass(feedback?.rating === 'down')}
+          title="Poor answer"
+        >
+          <ThumbsDown className="w-3.5 h-3.5" />
+        </button>
+        {feedback && !showComment && (
+          <button
+            onClick={() => setShowComment(true)}
+            disabled={isSubmitting}
+            className="ml-2 text-gray-400 hover:text-gray-200 underline disabled:opacity-40"
+          >
+            {feedback.comment ? 'Edit comment' : 'Add a comment'}
+          </button>
+        )}
+      </div>
+
+      {feedback && showComment && (
+        <form onSubmit={handleCommentSubmit} className="mt-2 space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder={feedback.rating === 'down' ? 'What was wrong or missing?' : 'Anything to add? (optional)'}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+          />
+          <div className="flex justify-end space-x-2 text-xs">
+            <button
+              type="button"
+              onClick={() => setShowComment(false)}
+              className="px-3 py-1 rounded-md text-gray-300 hover:bg-gray-700 transition-colors"
+            >
+              Skip
+            </button>
+            <button
+              type="submit"
+              disabled={!comment.trim() || isSubmitting}
+              className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Send comment
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-amber-400 mt-1">{error}</p>}
+    </div>
+  );
+};
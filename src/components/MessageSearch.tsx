@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Search, X, User, Bot } from 'lucide-react';
+import { chatSessionService, ArchivedMessage } from '../services/chatSessionService';
+import { Document } from '../types';
+
+interface MessageSearchProps {
+  documents: Document[];
+  onOpenResult: (result: ArchivedMessage) => void;
+}
+
+const SNIPPET_CONTEXT = 80;
+const SEARCH_DELAY_MS = 250;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Cut the message down to the text around the first match
+const buildSnippet = (content: string, terms: string[]) => {
+  const text = content.replace(/\s+/g, ' ');
+  const lowerText = text.toLowerCase();
+  const firstMatch = Math.min(...terms.map(term => lowerText.indexOf(term)).filter(index => index >= 0));
+  if (!isFinite(firstMatch)) return text.slice(0, SNIPPET_CONTEXT * 2);
+
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, firstMatch + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const HighlightedText: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-500/30 text-yellow-100 rounded px-0.5">{part}</mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export const MessageSearch: React.FC<MessageSearchProps> = ({ documents, onOpenResult }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ArchivedMessage[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await chatSessionService.searchMessages(query);
+        if (!cancelled) setResults(found);
+      } catch (error) {
+        console.error('Failed to search message archive:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const getDocumentName = (documentId: string) =>
+    documents.find(doc => doc.id === documentId)?.name || 'Unavailable document';
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search all conversations..."
+          className="w-full pl-9 pr-8 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {query && (
+          <button
+            onClick={() => setQuery('')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 text-gray-400 hover:text-white"
+            title="Clear search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {query.trim() && (
+        <div className="mt-3">
+          {results.length === 0 ? (
+            <p className="text-xs text-gray-400">{isSearching ? 'Searching...' : 'No matching messages.'}</p>
+          ) : (
+            <ul className="space-y-1 max-h-80 overflow-y-auto">
+              {results.map(result => (
+                <li key={result.id}>
+                  <button
+                    onClick={() => onOpenResult(result)}
+                    className="w-full p-2 rounded-lg text-left hover:bg-gray-700 transition-colors"
+                  >
+                    <div className="flex items-center space-x-1.5 text-xs text-gray-400 mb-1">
+                      {result.sender === 'user' ? <User className="w-3 h-3" /> : <Bot className="w-3 h-3" />}
+                      <span className="truncate">{getDocumentName(result.documentId)}</span>
+                      <span>·</span>
+                      <span className="flex-shrink-0">{result.timestamp.toLocaleDateString()}</span>
+                    </div>
+                    <p className="text-xs text-gray-300 leading-relaxed">
+                      <HighlightedText text={buildSnippet(result.content, terms)} terms={terms} />
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1 truncate">{result.sessionTitle}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { BookMarked, Download, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import {
+  promptTemplateService,
+  PromptTemplate,
+  PromptTemplateVariables,
+  PROMPT_TEMPLATE_VARIABLES,
+} from '../services/promptTemplateService';
+import { downloadFile } from '../services/downloadFile';
+
+interface PromptTemplatesPanelProps {
+  variables: PromptTemplateVariables;
+  // Called with the filled-in question text when a template is picked
+  onUseTemplate: (question: string) => void;
+  onClose: () => void;
+}
+
+type Draft = Pick<PromptTemplate, 'name' | 'body'> & { id?: string };
+
+export const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({ variables, onUseTemplate, onClose }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => promptTemplateService.listTemplates());
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => setTemplates(promptTemplateService.listTemplates());
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim() || !draft.body.trim()) return;
+    promptTemplateService.saveTemplate(draft);
+    setDraft(null);
+    refresh();
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    promptTemplateService.deleteTemplate(template.id);
+    refresh();
+  };
+
+  const handleExport = () => {
+    downloadFile(promptTemplateService.exportTemplates(), 'dtt-prompt-templates.json', 'application/json;charset=utf-8');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = promptTemplateService.importTemplates(await file.text());
+      setMessage({ type: 'success', text: `Imported ${count} template${count === 1 ? '' : 's'}.` });
+      refresh();
+    } catch (error) {
+      console.error('Failed to import prompt templates:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to import templates.' });
+    }
+  };
+
+  return (
+    <div className="mb-4 bg-gray-900 border border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <div className="flex items-center space-x-2 text-sm font-semibold text-white">
+          <BookMarked className="w-4 h-4 text-blue-400" />
+          <span>Question templates</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setDraft({ name: '', body: '' })}
+            className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+            title="New template"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+            title="Import templates from a JSON file"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={templates.length === 0}
+            className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            title="Export templates to a JSON file"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {message && (
+        <p className={`px-4 pt-3 text-xs ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+      )}
+
+      {draft ? (
+        <form onSubmit={handleSave} className="p-4 space-y-3">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Template name"
+            autoFocus
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <textarea
+            value={draft.body}
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            rows={3}
+            placeholder="List all termination clauses in {{documentName}}"
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+          />
+          <p className="text-xs text-gray-400">
+            Variables:{' '}
+            {PROMPT_TEMPLATE_VARIABLES.map(variable => (
+              <code key={variable.name} className="mr-2 text-gray-300" title={variable.description}>
+                {`{{${variable.name}}}`}
+              </code>
+            ))}
+          </p>
+          <div className="flex justify-end space-x-2 text-sm">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 rounded-md text-gray-300 hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!draft.name.trim() || !draft.body.trim()}
+              className="px-3 py-1.5 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save template
+            </button>
+          </div>
+        </form>
+      ) : templates.length === 0 ? (
+        <p className="p-4 text-sm text-gray-400">No templates yet. Create one or import a shared file.</p>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto divide-y divide-gray-800">
+          {templates.map(template => (
+            <li key={template.id} className="group flex items-start px-4 py-2 hover:bg-gray-800">
+              <button
+                onClick={() => onUseTemplate(promptTemplateService.fillTemplate(template.body, variables))}
+                className="flex-1 min-w-0 text-left"
+                title="Use this template"
+              >
+                <p className="text-sm font-medium text-gray-200 truncate">{template.name}</p>
+                <p className="text-xs text-gray-400 truncate">{template.body}</p>
+              </button>
+              <div className="flex items-center space-x-1 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => setDraft({ id: template.id, name: template.name, body: template.body })}
+                  className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700"
+                  title="Edit template"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700"
+                  title="Delete template"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,52 @@
 import React from 'react';
-import { Settings, Key, Globe, Database, AlertCircle, CheckCircle } from 'lucide-react';
+import { Settings, Key, Globe, Database, AlertCircle, CheckCircle, MessageSquare, Server, Folder } from 'lucide-react';
+import { settingsService, AppSettings, QABackendSetting, WebhookAuthType, MAX_CONCURRENT_QUESTIONS } from '../services/settingsService';
+import { getQABackends } from '../services/qaBackend';
+import { answerCacheService } from '../services/answerCacheService';
 
 export const SettingsPage: React.FC = () => {
   const [apiKeys, setApiKeys] = React.useState({
     googleApiKey: import.meta.env.VITE_GOOGLE_API_KEY || '',
     googleClientId: import.meta.env.VITE_GOOGLE_CLIENT_ID || '',
-    n8nWebhookUrl: import.meta.env.VITE_N8N_WEBHOOK_URL || '',
   });
 
   const handleApiKeyChange = (key: string, value: string) => {
     setApiKeys(prev => ({ ...prev, [key]: value }));
   };
 
+  const [appSettings, setAppSettings] = React.useState<AppSettings>(settingsService.getSettings());
+
+  // Kept within the same bounds as the input, which the browser doesn't enforce on typed values
+  const handleNumberSettingChange = (key: keyof AppSettings, value: string, min = 0, max = Infinity) => {
+    const parsed = Math.min(max, Math.max(min, Math.floor(Number(value) || 0)));
+    setAppSettings(settingsService.updateSettings({ [key]: parsed }));
+  };
+
+  const handleTextSettingChange = (key: keyof AppSettings, value: string) => {
+    setAppSettings(settingsService.updateSettings({ [key]: value }));
+  };
+
+  const [cachedAnswerCount, setCachedAnswerCount] = React.useState(answerCacheService.size);
+
+  const handleClearAnswerCache = () => {
+    answerCacheService.clear();
+    setCachedAnswerCount(0);
+  };
+
   const isConfigured = (value: string) => value && value.trim() !== '';
 
+  const isBackendConfigured = () => {
+    switch (appSettings.qaBackend) {
+      case 'n8n':
+        return !!isConfigured(appSettings.n8nWebhookUrl);
+      case 'openai':
+        return !!isConfigured(appSettings.openAIBaseUrl) && !!isConfigured(appSettings.openAIModel);
+      default:
+        return true;
+    }
+  };
+  const activeBackendLabel = getQABackends().find(backend => backend.id === appSettings.qaBackend)?.label;
+
   return (
     <div className="space-y-6">
       <div>
@@ -72,29 +105,308 @@ export const SettingsPage: React.FC = () => {
               Required for Google Drive authentication
             </p>
           </div>
+        </div>
+      </div>
 
-          {/* N8n Webhook URL */}
+      {/* Document Storage */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <Folder className="w-6 h-6 text-blue-500" />
+          <h2 className="text-xl font-semibold text-white">Document Storage</h2>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Google Drive folder</label>
+          <input
+            type="text"
+            value={appSettings.driveFolderName}
+            onChange={(e) => handleTextSettingChange('driveFolderName', e.target.value)}
+            className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-400 mt-1">
+            Uploads are stored in this folder in your Drive, with a subfolder per engagement. It is created on first use.
+          </p>
+        </div>
+      </div>
+
+      {/* Question Answering Backend */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <Server className="w-6 h-6 text-blue-500" />
+          <h2 className="text-xl font-semibold text-white">Question Answering Backend</h2>
+        </div>
+
+        <div className="space-y-6">
           <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              N8n Webhook URL
-              {isConfigured(apiKeys.n8nWebhookUrl) ? (
-                <CheckCircle className="inline w-4 h-4 text-green-500 ml-2" />
-              ) : (
-                <AlertCircle className="inline w-4 h-4 text-amber-500 ml-2" />
+            <label className="block text-sm font-medium text-gray-300 mb-2">Active backend</label>
+            <select
+              value={appSettings.qaBackend}
+              onChange={(e) => handleTextSettingChange('qaBackend', e.target.value as QABackendSetting)}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {getQABackends().map(backend => (
+                <option key={backend.id} value={backend.id}>{backend.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">
+              Where chat questions are sent. The mock backend returns canned answers for demos.
+            </p>
+          </div>
+
+          {appSettings.qaBackend === 'n8n' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                N8n Webhook URL
+                {isConfigured(appSettings.n8nWebhookUrl) ? (
+                  <CheckCircle className="inline w-4 h-4 text-green-500 ml-2" />
+                ) : (
+                  <AlertCircle className="inline w-4 h-4 text-amber-500 ml-2" />
+                )}
+              </label>
+              <input
+                type="url"
+                value={appSettings.n8nWebhookUrl}
+                onChange={(e) => handleTextSettingChange('n8nWebhookUrl', e.target.value)}
+                placeholder="Enter your N8n webhook URL"
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                Webhook endpoint for document processing workflow
+              </p>
+            </div>
+          )}
+
+          {appSettings.qaBackend === 'n8n' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Webhook authentication</label>
+                <select
+                  value={appSettings.n8nAuthType}
+                  onChange={(e) => handleTextSettingChange('n8nAuthType', e.target.value as WebhookAuthType)}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="none">None</option>
+                  <option value="bearer">Bearer token</option>
+                  <option value="header">Custom header</option>
+                </select>
+              </div>
+              {appSettings.n8nAuthType === 'header' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Header name</label>
+                  <input
+                    type="text"
+                    value={appSettings.n8nAuthHeaderName}
+                    onChange={(e) => handleTextSettingChange('n8nAuthHeaderName', e.target.value)}
+                    placeholder="X-API-Key"
+                    className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
               )}
-            </label>
+              {appSettings.n8nAuthType !== 'none' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {appSettings.n8nAuthType === 'bearer' ? 'Bearer token' : 'Header value'}
+                  </label>
+                  <input
+                    type="password"
+                    value={appSettings.n8nAuthToken}
+                    onChange={(e) => handleTextSettingChange('n8nAuthToken', e.target.value)}
+                    className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-300 mb-2">Request signing secret</label>
+                <input
+                  type="password"
+                  value={appSettings.n8nSigningSecret}
+                  onChange={(e) => handleTextSettingChange('n8nSigningSecret', e.target.value)}
+                  placeholder="Optional"
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Adds X-DTT-Timestamp and X-DTT-Signature (HMAC-SHA256) headers so the workflow can reject forged or replayed requests. See docs/webhook-signing.md.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {appSettings.qaBackend === 'openai' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-300 mb-2">Base URL</label>
+                <input
+                  type="url"
+                  value={appSettings.openAIBaseUrl}
+                  onChange={(e) => handleTextSettingChange('openAIBaseUrl', e.target.value)}
+                  placeholder="https://api.openai.com/v1"
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Any OpenAI-compatible chat completions API, including a local server such as Ollama or LM Studio
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">API Key</label>
+                <input
+                  type="password"
+                  value={appSettings.openAIApiKey}
+                  onChange={(e) => handleTextSettingChange('openAIApiKey', e.target.value)}
+                  placeholder="Optional for local servers"
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+                <input
+                  type="text"
+                  value={appSettings.openAIModel}
+                  onChange={(e) => handleTextSettingChange('openAIModel', e.target.value)}
+                  placeholder="gpt-4o-mini"
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Request timeout (seconds)</label>
+              <input
+                type="number"
+                min={5}
+                value={appSettings.requestTimeoutSeconds}
+                onChange={(e) => handleNumberSettingChange('requestTimeoutSeconds', e.target.value, 5)}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                How long to wait for the backend to start answering, or to send more of a streamed answer, before giving up
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Retries on transient errors</label>
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={appSettings.maxRetries}
+                onChange={(e) => handleNumberSettingChange('maxRetries', e.target.value, 0, 5)}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                Network errors and 5xx responses are retried with exponential backoff
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Feedback Webhook URL</label>
             <input
               type="url"
-              value={apiKeys.n8nWebhookUrl}
-              onChange={(e) => handleApiKeyChange('n8nWebhookUrl', e.target.value)}
-              placeholder="Enter your N8n webhook URL"
+              value={appSettings.feedbackWebhookUrl}
+              onChange={(e) => handleTextSettingChange('feedbackWebhookUrl', e.target.value)}
+              placeholder="Optional"
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Receives answer ratings and comments together with the question, answer and document id. Leave empty to keep ratings in this browser only.
+            </p>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-4">These settings are saved in this browser.</p>
+      </div>
+
+      {/* Chat Settings */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <MessageSquare className="w-6 h-6 text-purple-500" />
+          <h2 className="text-xl font-semibold text-white">Conversation Context</h2>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              History messages sent per question
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={50}
+              value={appSettings.historyMessageLimit}
+              onChange={(e) => handleNumberSettingChange('historyMessageLimit', e.target.value, 0, 50)}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Earlier messages from the current chat sent so follow-up questions have context. Set to 0 to disable.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Maximum history size (characters)
+            </label>
+            <input
+              type="number"
+              min={0}
+              step={500}
+              value={appSettings.historyCharLimit}
+              onChange={(e) => handleNumberSettingChange('historyCharLimit', e.target.value)}
               className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
             <p className="text-xs text-gray-400 mt-1">
-              Webhook endpoint for document processing workflow
+              The oldest history messages are dropped until the rest fit within this limit.
             </p>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Questions answered at the same time
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENT_QUESTIONS}
+              value={appSettings.maxConcurrentQuestions}
+              onChange={(e) => handleNumberSettingChange('maxConcurrentQuestions', e.target.value, 1, MAX_CONCURRENT_QUESTIONS)}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Questions sent while others are loading wait in a queue. With 1, each question waits for the previous answer and can use it as context.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Answer cache lifetime (minutes)
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={appSettings.answerCacheTtlMinutes}
+              onChange={(e) => handleNumberSettingChange('answerCacheTtlMinutes', e.target.value)}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Repeated questions about unchanged documents are answered from this browser's cache. Set to 0 to disable.
+            </p>
+          </div>
+
+          <div className="flex items-end">
+            <div>
+              <button
+                onClick={handleClearAnswerCache}
+                disabled={cachedAnswerCount === 0}
+                className="px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Clear answer cache
+              </button>
+              <p className="text-xs text-gray-400 mt-1">
+                {cachedAnswerCount} cached answer{cachedAnswerCount === 1 ? '' : 's'}
+              </p>
+            </div>
+          </div>
         </div>
+        <p className="text-xs text-gray-500 mt-4">These settings are saved in this browser.</p>
       </div>
 
       {/* System Status */}
@@ -123,15 +435,15 @@ export const SettingsPage: React.FC = () => {
 
           <div className="p-4 bg-gray-700 rounded-lg">
             <div className="flex items-center justify-between mb-2">
-              <span className="text-gray-300">N8n Workflow</span>
-              {isConfigured(apiKeys.n8nWebhookUrl) ? (
+              <span className="text-gray-300">Q&A Backend</span>
+              {isBackendConfigured() ? (
                 <CheckCircle className="w-5 h-5 text-green-500" />
               ) : (
                 <AlertCircle className="w-5 h-5 text-amber-500" />
               )}
             </div>
             <p className="text-xs text-gray-400">
-              {isConfigured(apiKeys.n8nWebhookUrl) ? 'Configured' : 'Missing webhook URL'}
+              {isBackendConfigured() ? activeBackendLabel : `${activeBackendLabel}: missing configuration`}
             </p>
           </div>
 
@@ -158,8 +470,8 @@ export const SettingsPage: React.FC = () => {
           <div>
             <h3 className="text-blue-200 font-medium mb-1">Environment Variables</h3>
             <p className="text-blue-300 text-sm">
-              These settings are loaded from your environment variables (.env file). 
-              Changes here are for display only and won't persist after refresh.
+              The Google settings are loaded from your environment variables (.env file). 
+              Changes to them here are for display only and won't persist after refresh.
             </p>
           </div>
         </div>
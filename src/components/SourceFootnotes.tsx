@@ -0,0 +1,53 @@
+import React from 'react';
+import { ExternalLink } from 'lucide-react';
+import { ChatSource, Document } from '../types';
+
+interface SourceFootnotesProps {
+  sources: ChatSource[];
+  documents: Document[];
+}
+
+export const SourceFootnotes: React.FC<SourceFootnotesProps> = ({ sources, documents }) => {
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-700">
+      <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Sources</p>
+      <ol className="space-y-2">
+        {sources.map((source, index) => {
+          const document = documents.find(doc => doc.id === source.documentId);
+
+          return (
+            <li key={`${source.documentId}-${index}`} className="flex items-start space-x-2 text-xs">
+              <span className="flex-shrink-0 w-5 h-5 flex items-center justify-center bg-gray-700 rounded text-gray-300 font-semibold">
+                {index + 1}
+              </span>
+              <div className="min-w-0">
+                <div className="flex items-center space-x-1 text-gray-300">
+                  <span className="font-medium truncate">{document?.name || source.documentId}</span>
+                  {source.pageNumber !== undefined && (
+                    <span className="text-gray-400">· p. {source.pageNumber}</span>
+                  )}
+                  {document?.webViewLink && (
+                    <a
+                      href={document.webViewLink}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-400 hover:text-blue-300"
+                      title="Open document in Google Drive"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </div>
+                {source.snippet && (
+                  <blockquote className="mt-1 pl-2 border-l-2 border-gray-600 text-gray-400 italic">
+                    "{source.snippet}"
+                  </blockquote>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
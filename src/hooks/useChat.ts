@@ -1,62 +1,272 @@
-import { useState, useCallback } from 'react';
-import { ChatMessage, ChatSession } from '../types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ChatIntent, ChatMessage, ChatMessageFeedback, ChatMessageVariant, ChatSession, KnowledgeGraphData } from '../types';
 import { googleKnowledgeGraphService } from '../services/googleKnowledgeGraphService';
+import { chatSessionService } from '../services/chatSessionService';
+import { settingsService, MAX_CONCURRENT_QUESTIONS } from '../services/settingsService';
+import { getActiveQABackend, HistoryMessage, QAResponse } from '../services/qaBackend';
+import { HttpStatusError, isAbortError } from '../services/fetchWithRetry';
+import { feedbackService } from '../services/feedbackService';
+import { describeIntent, parseSlashCommand } from '../services/slashCommands';
+import { answerCacheService } from '../services/answerCacheService';
+import { loadDocuments } from '../services/driveDocument';
 import { Document } from '../types';
 
-export const useChat = (documentId?: string, documents: Document[] = [], onKnowledgeGraphUpdate?: (data: any) => void) => {
+type SessionInfo = Omit<ChatSession, 'messages' | 'updatedAt'>;
+
+interface AnswerOptions {
+  // Ask the backend even if the answer cache holds a fresh answer
+  bypassCache?: boolean;
+}
+
+export const useChat = (
+  documentIds: string[] = [],
+  documents: Document[] = [],
+  // Called with a session's documents, primary first, when it is opened so the caller can select them again
+  onSessionDocumentsRestore?: (documentIds: string[]) => void
+) => {
+  // Sessions are stored under the primary (first selected) document
+  const documentId = documentIds[0];
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  // Number of questions currently being answered
+  const [activeRequestCount, setActiveRequestCount] = useState(0);
+  const isLoading = activeRequestCount > 0;
+  // Set by stopGeneration: queued questions wait until the queue is resumed or a new question is sent
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
   const [isAnalyzingKnowledge, setIsAnalyzingKnowledge] = useState(false);
-  const [knowledgeGraphData, setKnowledgeGraphData] = useState<any>(null);
+  const [knowledgeGraphData, setKnowledgeGraphData] = useState<KnowledgeGraphData | null>(null);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string>();
+  // Message to scroll to after opening a session from the message archive
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  // Archived message whose session is waiting for its document's sessions to load before it can be opened
+  const pendingArchivedMessageRef = useRef<{ sessionId: string; messageId: string; variantIndex: number } | null>(null);
+  const documentIdRef = useRef(documentId);
+  documentIdRef.current = documentId;
+  const sessionRef = useRef<SessionInfo | null>(null);
+  // Latest messages, so callbacks can build the history window without being re-created on every message
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  messagesRef.current = messages;
+  // One controller per answer being generated, keyed by assistant message id
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  // Queued questions already handed to answerQuestion, so the queue never starts one twice
+  const startedQuestionIdsRef = useRef(new Set<string>());
+  const onSessionDocumentsRestoreRef = useRef(onSessionDocumentsRestore);
+  onSessionDocumentsRestoreRef.current = onSessionDocumentsRestore;
+
+  const openSession = useCallback((session: ChatSession | null) => {
+    sessionRef.current = session
+      ? {
+          id: session.id,
+          documentId: session.documentId,
+          documentIds: session.documentIds,
+          title: session.title,
+          createdAt: session.createdAt,
+        }
+      : null;
+    setCurrentSessionId(session?.id);
+    setMessages(session?.messages || []);
+    setKnowledgeGraphData(null);
+    if (session) {
+      const otherIds = (session.documentIds || []).filter(id => id !== session.documentId);
+      onSessionDocumentsRestoreRef.current?.([session.documentId, ...otherIds]);
+    }
+  }, []);
+
+  // Load the stored sessions whenever the selected document changes and resume the latest one
+  useEffect(() => {
+    let cancelled = false;
+    openSession(null);
+    setSessions([]);
 
-  const sendMessage = useCallback(async (content: string) => {
     if (!documentId) return;
 
-    const currentDocument = documents.find(doc => doc.id === documentId);
-    if (!currentDocument) return;
+    chatSessionService.listSessions(documentId)
+      .then(storedSessions => {
+        if (cancelled) return;
+        setSessions(storedSessions);
+        const pending = pendingArchivedMessageRef.current;
+        const pendingSession = storedSessions.find(session => session.id === pending?.sessionId);
+        if (pending && pendingSession) {
+          pendingArchivedMessageRef.current = null;
+          openSession(pendingSession);
+          setMessages(prev => revealMessage(prev, pending.messageId, pending.variantIndex));
+        // Don't replace a conversation the user already started while sessions were loading
+        } else if (!sessionRef.current && storedSessions.length > 0) {
+          openSession(storedSessions[0]);
+        }
+      })
+      .catch(error => console.error('Failed to load chat sessions:', error));
 
-    // Add user message
-    const userMessage: ChatMessage = {
-      id: crypto.randomUUID(),
-      content,
-      sender: 'user',
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, openSession]);
+
+  // Persist the current session every time its messages change
+  useEffect(() => {
+    const info = sessionRef.current;
+    if (!info || messages.length === 0) return;
+    // Wait for streamed answers to complete instead of writing on every token
+    if (messages.some(message => message.isStreaming)) return;
+
+    const session: ChatSession = {
+      ...info,
+      messages,
+      updatedAt: messages[messages.length - 1].timestamp,
+    };
+
+    chatSessionService.saveSession(session)
+      .then(() => {
+        setSessions(prev => [session, ...prev.filter(s => s.id !== session.id)]
+          .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+      })
+      .catch(error => console.error('Failed to save chat session:', error));
+  }, [messages]);
+
+  // Add or replace a message in the session it belongs to, even if the user has since switched away from it.
+  // New answers are inserted directly after the question they reply to, so answers that complete out of
+  // order still line up with their questions. Intermediate streaming updates are only applied to the visible session.
+  const upsertMessage = useCallback(async (sessionId: string, message: ChatMessage, questionId?: string) => {
+    const upsert = (messages: ChatMessage[]) => {
+      // A question that is being answered has left the queue
+      const list = messages.map(m => (m.id === questionId && m.queued ? { ...m, queued: undefined } : m));
+      if (list.some(m => m.id === message.id)) {
+        return list.map(m => (m.id === message.id ? replaceActiveVariant(m, message) : m));
+      }
+      const questionIndex = list.findIndex(m => m.id === questionId);
+      return questionIndex < 0
+        ? [...list, message]
+        : [...list.slice(0, questionIndex + 1), message, ...list.slice(questionIndex + 1)];
+    };
+
+    if (sessionRef.current?.id === sessionId) {
+      setMessages(upsert);
+      return;
+    }
+    if (message.isStreaming) return;
+
+    try {
+      const storedSession = await chatSessionService.getSession(sessionId);
+      if (!storedSession) return;
+      const session: ChatSession = {
+        ...storedSession,
+        messages: upsert(storedSession.messages),
+        updatedAt: message.timestamp,
+      };
+      await chatSessionService.saveSession(session);
+      // Keep the session list current, so resuming the session from it shows the new answer
+      setSessions(prev => prev.some(s => s.id === sessionId)
+        ? prev.map(s => (s.id === sessionId ? session : s)).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+        : prev);
+    } catch (error) {
+      console.error('Failed to store message in background session:', error);
+    }
+  }, []);
+
+  // Ask the active backend to answer a user message, writing the result (or failure) into the
+  // assistant message with the given id so that retries replace the answer in place
+  const answerQuestion = useCallback(async (
+    sessionId: string,
+    userMessage: ChatMessage,
+    assistantMessageId: string,
+    history: HistoryMessage[],
+    { bypassCache = false }: AnswerOptions = {}
+  ) => {
+    const askedDocumentIds = userMessage.documentIds || (userMessage.documentId ? [userMessage.documentId] : []);
+
+    const baseMessage: ChatMessage = {
+      id: assistantMessageId,
+      content: '',
+      sender: 'assistant',
       timestamp: new Date(),
-      documentId,
+      documentId: userMessage.documentId,
     };
 
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
+    // Registered before anything is awaited, so the question holds its queue slot and can be stopped
+    const controller = new AbortController();
+    abortControllersRef.current.set(assistantMessageId, controller);
+    setActiveRequestCount(count => count + 1);
+    // Show the pending answer under its question straight away
+    upsertMessage(sessionId, { ...baseMessage, isStreaming: true }, userMessage.id);
+
+    const backend = getActiveQABackend();
+    const startedAt = performance.now();
+    let firstTokenAt: number | undefined;
+    const elapsedMs = (until = performance.now()) => Math.round(until - startedAt);
+
+    // Streamed tokens grow a single assistant message in place
+    let partialAnswer = '';
+    const handleToken = (answerSoFar: string) => {
+      firstTokenAt ??= performance.now();
+      partialAnswer = answerSoFar;
+      upsertMessage(sessionId, { ...baseMessage, content: answerSoFar, timestamp: new Date(), isStreaming: true }, userMessage.id);
+    };
 
     try {
-      // Send to n8n workflow with document metadata
-      console.log('Sending to n8n:', { question: content, document: currentDocument });
-      const webhookResponse = await sendToN8nWorkflow(content, currentDocument);
-      console.log('Received from n8n:', webhookResponse);
-      
-      // Handle both old format (string) and new format (object)
-      let aiResponse: string;
-      
-      if (typeof webhookResponse === 'string') {
-        // Simple format - just text response
-        aiResponse = webhookResponse;
-      } else if (webhookResponse && typeof webhookResponse === 'object') {
-        // Object format - extract the text response
-        aiResponse = webhookResponse.output || webhookResponse.answer || webhookResponse.response || 'No response text found';
+      // Questions queued in a resumed session may be about documents that haven't been listed yet
+      const askedDocuments = await loadDocuments(askedDocumentIds, documents, controller.signal);
+      if (askedDocuments.length === 0) {
+        throw new Error('The documents this question was asked about are no longer available.');
+      }
+
+      // Send the question and document metadata to the configured backend
+      const { intent } = userMessage;
+      const question = intent ? describeIntent(intent, askedDocuments) : userMessage.content;
+      const cached = bypassCache ? null : await answerCacheService.get(question, askedDocuments, backend.id, history);
+
+      let backendResponse: QAResponse;
+      if (cached) {
+        console.log(`Answering from cache (cached ${cached.cachedAt.toISOString()}):`, { question });
+        backendResponse = cached.response;
       } else {
-        aiResponse = 'Received invalid response format from n8n workflow';
+        console.log(`Sending to ${backend.label}:`, { question, intent, documents: askedDocuments });
+        backendResponse = await backend.ask(
+          { question, documents: askedDocuments, history, intent },
+          { onToken: handleToken, signal: controller.signal }
+        );
+        console.log(`Received from ${backend.label}:`, backendResponse);
+        await answerCacheService.set(question, askedDocuments, backend.id, history, backendResponse);
       }
-      
+      const aiResponse = backendResponse.answer;
+
       const assistantMessage: ChatMessage = {
-        id: crypto.randomUUID(),
+        ...baseMessage,
         content: aiResponse,
-        sender: 'assistant',
         timestamp: new Date(),
-        documentId,
+        documentIds: resolveUsedDocumentIds(backendResponse, askedDocumentIds),
+        sources: backendResponse.sources,
+        followUpQuestions: backendResponse.followUpQuestions,
+        cachedAt: cached?.cachedAt,
+        diagnostics: cached
+          ? { backend: backend.id, durationMs: elapsedMs(), cached: true }
+          : {
+              backend: backend.id,
+              durationMs: elapsedMs(),
+              timeToFirstTokenMs: firstTokenAt !== undefined ? elapsedMs(firstTokenAt) : undefined,
+              httpStatus: backendResponse.httpStatus,
+              responseBytes: backendResponse.responseBytes,
+              tokenUsage: backendResponse.tokenUsage,
+              streamed: firstTokenAt !== undefined,
+              warnings: backendResponse.warnings,
+            },
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      await upsertMessage(sessionId, assistantMessage, userMessage.id);
+
+      // The graph shown is for the session on screen, so answers that finish for another session leave it alone
+      const isVisibleSession = () => sessionRef.current?.id === sessionId;
+      const showKnowledgeGraph = (data: KnowledgeGraphData) => {
+        if (isVisibleSession()) setKnowledgeGraphData(data);
+      };
+      if (!isVisibleSession()) return;
+
+      // Prefer the knowledge graph computed by the workflow; only analyse the answer locally without one
+      if (backendResponse.knowledgeGraph) {
+        console.log('🧠 Using knowledge graph provided by the workflow:', backendResponse.knowledgeGraph);
+        showKnowledgeGraph(backendResponse.knowledgeGraph);
+        return;
+      }
 
-      // ALWAYS run Google Knowledge Graph analysis on the AI response
       console.log('🧠 STARTING knowledge graph analysis for AI response...');
       console.log('🧠 AI Response length:', aiResponse.length);
       console.log('🧠 AI Response preview:', aiResponse.substring(0, 200) + '...');
@@ -72,14 +282,14 @@ export const useChat = (documentId?: string, documents: Document[] = [], onKnowl
           console.log('🧠 Analysis has nodes:', knowledgeAnalysis?.graph?.nodes?.length || 0);
           console.log('🧠 Analysis has insights:', knowledgeAnalysis?.insights?.questions?.length || 0);
           
-          setKnowledgeGraphData(knowledgeAnalysis);
+          showKnowledgeGraph(knowledgeAnalysis);
           console.log('🧠 Knowledge graph data SET in state');
           
         } catch (error) {
           console.error('🧠 Knowledge graph analysis FAILED:', error);
           
           // Create a simple fallback with test data
-          const fallbackData = {
+          const fallbackData: KnowledgeGraphData = {
             graph: {
               nodes: [
                 { id: 'test1', label: 'Test Entity 1', size: 10, color: '#3B82F6', cluster: 0, type: 'Entity', score: 1 },
@@ -99,7 +309,7 @@ export const useChat = (documentId?: string, documents: Document[] = [], onKnowl
           };
           
           console.log('🧠 Using FALLBACK test data:', fallbackData);
-          setKnowledgeGraphData(fallbackData);
+          showKnowledgeGraph(fallbackData);
           
         } finally {
           setIsAnalyzingKnowledge(false);
@@ -107,129 +317,511 @@ export const useChat = (documentId?: string, documents: Document[] = [], onKnowl
         }
       }, 100); // Small delay to ensure UI updates
     } catch (error) {
-      console.error('Error sending message:', error);
-      
-      const errorMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        content: 'Sorry, I encountered an error processing your request. Please try again.',
-        sender: 'assistant',
+      const stopped = isAbortError(error);
+      if (!stopped) {
+        console.error('Error sending message:', error);
+      }
+
+      // Keep whatever was streamed before the failure and let the user retry
+      await upsertMessage(sessionId, {
+        ...baseMessage,
+        content: partialAnswer,
         timestamp: new Date(),
+        status: stopped ? 'stopped' : 'error',
+        error: stopped ? undefined : error instanceof Error ? error.message : String(error),
+        diagnostics: {
+          backend: backend.id,
+          durationMs: elapsedMs(),
+          timeToFirstTokenMs: firstTokenAt !== undefined ? elapsedMs(firstTokenAt) : undefined,
+          httpStatus: error instanceof HttpStatusError ? error.status : undefined,
+          streamed: firstTokenAt !== undefined,
+        },
+      }, userMessage.id);
+    } finally {
+      abortControllersRef.current.delete(assistantMessageId);
+      setActiveRequestCount(count => count - 1);
+    }
+  }, [documents, upsertMessage]);
+
+  const sendMessage = useCallback(async (content: string) => {
+    if (!documentId) return;
+
+    const selectedDocuments = documentIds
+      .map(id => documents.find(doc => doc.id === id))
+      .filter((doc): doc is Document => !!doc);
+    if (selectedDocuments.length === 0) return;
+    setFocusedMessageId(null);
+
+    let intent: ChatIntent | null;
+    try {
+      intent = parseSlashCommand(content, documents);
+    } catch (error) {
+      console.warn('Ignoring invalid slash command:', error);
+      return;
+    }
+
+    // Start a new session on the first question
+    if (!sessionRef.current || sessionRef.current.documentId !== documentId) {
+      sessionRef.current = {
+        id: crypto.randomUUID(),
         documentId,
+        title: chatSessionService.createTitle(content),
+        createdAt: new Date(),
       };
+      setCurrentSessionId(sessionRef.current.id);
+    }
+    const askedDocumentIds = withIntentTarget(selectedDocuments.map(doc => doc.id), intent);
+    sessionRef.current = { ...sessionRef.current, documentIds: selectedDocuments.map(doc => doc.id) };
 
-      setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
+    // Add the user message to the queue; the queue runner below sends it once a slot is free
+    const userMessage: ChatMessage = {
+      id: crypto.randomUUID(),
+      content,
+      sender: 'user',
+      timestamp: new Date(),
+      documentId,
+      documentIds: askedDocumentIds,
+      intent: intent || undefined,
+      queued: true,
+    };
+
+    setMessages(prev => [...prev, userMessage]);
+    setIsQueuePaused(false);
+  }, [documentId, documentIds, documents]);
+
+  // Send queued questions in order, keeping at most the configured number of answers in progress.
+  // Questions left queued in a stored session are picked up again when it is reopened.
+  useEffect(() => {
+    const sessionId = sessionRef.current?.id;
+    if (!sessionId || isQueuePaused) return;
+
+    const { maxConcurrentQuestions } = settingsService.getSettings();
+    const limit = Math.min(MAX_CONCURRENT_QUESTIONS, Math.max(1, maxConcurrentQuestions));
+    const freeSlots = limit - abortControllersRef.current.size;
+    if (freeSlots <= 0) return;
+
+    messages
+      .filter(message => message.queued && !startedQuestionIdsRef.current.has(message.id))
+      .slice(0, freeSlots)
+      .forEach(question => {
+        startedQuestionIdsRef.current.add(question.id);
+        const history = buildHistoryWindow(messages.slice(0, messages.indexOf(question)));
+        answerQuestion(sessionId, { ...question, queued: undefined }, crypto.randomUUID(), history);
+      });
+  }, [messages, activeRequestCount, isQueuePaused, answerQuestion]);
+
+  // Remove a question from the queue before it is sent
+  const cancelQueuedQuestion = useCallback((messageId: string) => {
+    if (startedQuestionIdsRef.current.has(messageId)) return;
+    setMessages(prev => prev.filter(message => !(message.id === messageId && message.queued)));
+  }, []);
+
+  // Move a queued question one place earlier (-1) or later (1) in the queue
+  const moveQueuedQuestion = useCallback((messageId: string, direction: -1 | 1) => {
+    setMessages(prev => {
+      const queuedIndexes = prev
+        .map((message, index) => (message.queued && !startedQuestionIdsRef.current.has(message.id) ? index : -1))
+        .filter(index => index >= 0);
+      const position = queuedIndexes.findIndex(index => prev[index].id === messageId);
+      const swapWith = queuedIndexes[position + direction];
+      if (position < 0 || swapWith === undefined) return prev;
+
+      const next = [...prev];
+      [next[queuedIndexes[position]], next[swapWith]] = [next[swapWith], next[queuedIndexes[position]]];
+      return next;
+    });
+  }, []);
+
+  // Re-ask the question behind a failed or stopped answer, replacing that answer in place
+  const retryMessage = useCallback(async (assistantMessageId: string, options: AnswerOptions = {}) => {
+    const sessionId = sessionRef.current?.id;
+    const currentMessages = messagesRef.current;
+    const assistantIndex = currentMessages.findIndex(message => message.id === assistantMessageId);
+    if (!sessionId || assistantIndex < 0) return;
+
+    const userIndex = currentMessages
+      .slice(0, assistantIndex)
+      .map(message => message.sender)
+      .lastIndexOf('user');
+    if (userIndex < 0) return;
+
+    setMessages(prev => prev.map(message =>
+      message.id === assistantMessageId
+        ? replaceActiveVariant(message, { id: message.id, content: '', sender: 'assistant', timestamp: new Date(), documentId: message.documentId, isStreaming: true })
+        : message
+    ));
+
+    const history = buildHistoryWindow(currentMessages.slice(0, userIndex));
+    await answerQuestion(sessionId, currentMessages[userIndex], assistantMessageId, history, options);
+  }, [answerQuestion]);
+
+  // Replace a cached answer with a fresh one from the backend
+  const refreshAnswer = useCallback(
+    (assistantMessageId: string) => retryMessage(assistantMessageId, { bypassCache: true }),
+    [retryMessage]
+  );
+
+  // Start a new branch of a question/answer turn: both messages get a new variant at the same index,
+  // and the answer is re-requested for the (possibly edited) question
+  const branchTurn = useCallback(async (userMessageId: string, question: string, options: AnswerOptions = {}) => {
+    const sessionId = sessionRef.current?.id;
+    const currentMessages = messagesRef.current;
+    const userIndex = currentMessages.findIndex(message => message.id === userMessageId);
+    if (!sessionId || userIndex < 0 || currentMessages[userIndex].sender !== 'user') return;
+
+    const original = currentMessages[userIndex];
+    let intent: ChatIntent | null;
+    try {
+      intent = parseSlashCommand(question, documents);
+    } catch (error) {
+      console.warn('Ignoring invalid slash command:', error);
+      return;
     }
-  }, [documentId, documents, onKnowledgeGraphUpdate]);
+    // Swap the document pulled in by the old command (if any) for the one named by the new command
+    const baseDocumentIds = (original.documentIds || (original.documentId ? [original.documentId] : []))
+      .filter(id => id !== original.intent?.targetDocumentId || id === original.documentId);
+    const following = currentMessages[userIndex + 1];
+    const answer = following?.sender === 'assistant' ? following : undefined;
 
-  const clearMessages = useCallback(() => {
-    setMessages([]);
-    setKnowledgeGraphData(null);
+    const userVariants = original.variants || [toVariant(original)];
+    const userVariant: ChatMessageVariant = {
+      ...toVariant(original),
+      content: question,
+      timestamp: new Date(),
+      documentIds: withIntentTarget(baseDocumentIds, intent),
+      intent: intent || undefined,
+    };
+    const userMessage: ChatMessage = {
+      ...userVariant,
+      id: original.id,
+      variants: [...userVariants, userVariant],
+      activeVariant: userVariants.length,
+    };
+
+    const placeholder: ChatMessage = {
+      id: answer?.id || crypto.randomUUID(),
+      content: '',
+      sender: 'assistant',
+      timestamp: new Date(),
+      documentId: original.documentId,
+      isStreaming: true,
+    };
+    if (answer) {
+      const answerVariants = answer.variants || [toVariant(answer)];
+      // Older turns created before branching may have fewer answer variants; pad so indexes line up
+      while (answerVariants.length < userVariants.length) {
+        answerVariants.push(toVariant(answer));
+      }
+      placeholder.variants = [...answerVariants, toVariant(placeholder)];
+      placeholder.activeVariant = answerVariants.length;
+    }
+
+    // The turns after this one stay with the branch being left; the new branch starts without them
+    setMessages(prev => {
+      const index = prev.findIndex(message => message.id === userMessageId);
+      if (index < 0) return prev;
+      const turnEnd = answer && prev[index + 1]?.id === answer.id ? index + 2 : index + 1;
+      const { stashed, pending } = splitLaterMessages(prev.slice(turnEnd));
+      const question = stashLaterMessages(userMessage, original.activeVariant ?? 0, stashed);
+      return [...prev.slice(0, index), question, placeholder, ...pending];
+    });
+
+    const history = buildHistoryWindow(currentMessages.slice(0, userIndex));
+    await answerQuestion(sessionId, userMessage, placeholder.id, history, options);
+  }, [documents, answerQuestion]);
+
+  // Ask the same question again, keeping the previous answer as a branch
+  const regenerateAnswer = useCallback(async (assistantMessageId: string) => {
+    const currentMessages = messagesRef.current;
+    const assistantIndex = currentMessages.findIndex(message => message.id === assistantMessageId);
+    const userMessage = currentMessages[assistantIndex - 1];
+    if (assistantIndex < 1 || userMessage.sender !== 'user') return;
+
+    // A regenerated answer should differ from the current one, so never serve it from the cache
+    await branchTurn(userMessage.id, userMessage.content, { bypassCache: true });
+  }, [branchTurn]);
+
+  // Change a previous question and ask it again, keeping the original question and answer as a branch
+  const editAndResend = useCallback(async (userMessageId: string, question: string) => {
+    if (!question.trim()) return;
+    await branchTurn(userMessageId, question.trim());
+  }, [branchTurn]);
+
+  // Flip a question/answer turn to another of its branches, along with the turns that followed it there
+  const selectVariant = useCallback((messageId: string, variantIndex: number) => {
+    setMessages(prev => {
+      const index = prev.findIndex(message => message.id === messageId);
+      return index < 0 ? prev : switchBranch(prev, index, variantIndex);
+    });
   }, []);
 
-  return {
-    messages,
-    sendMessage,
-    isLoading,
-    isAnalyzingKnowledge,
-    knowledgeGraphData,
-    clearMessages,
-  };
-};
+  // Store the user's rating on an answer and send it, with the question, to the feedback webhook.
+  // The rating is kept on the message even if sending it fails.
+  const rateMessage = useCallback(async (assistantMessageId: string, rating: ChatMessageFeedback['rating'], comment?: string) => {
+    const currentMessages = messagesRef.current;
+    const assistantIndex = currentMessages.findIndex(message => message.id === assistantMessageId);
+    const answer = currentMessages[assistantIndex];
+    if (!answer || answer.sender !== 'assistant') return;
 
-// Send question and document metadata to n8n workflow
-const sendToN8nWorkflow = async (question: string, document: Document): Promise<string> => {
-  const N8N_WEBHOOK_URL = import.meta.env.VITE_N8N_WEBHOOK_URL || 'https://punnet47spoke.app.n8n.cloud/webhook/96cfc630-3e1e-4f1e-ab6c-22bd88112f0c';
-  
-  console.log('Using webhook URL:', N8N_WEBHOOK_URL);
-  
-  const payload = {
-    question,
-    document: {
-      id: document.id,
-      name: document.name,
-      type: document.type,
-      size: document.size,
-      driveFileId: document.driveFileId,
-      webViewLink: document.webViewLink,
-      webContentLink: document.webContentLink,
-      shareableLink: document.shareableLink, // Direct download link for n8n
-      uploadedAt: document.uploadedAt,
-      metadata: document.metadata,
-    },
-    timestamp: new Date().toISOString(),
-  };
+    const question = currentMessages
+      .slice(0, assistantIndex)
+      .reverse()
+      .find(message => message.sender === 'user');
 
-  try {
-    console.log('Sending payload to n8n:', JSON.stringify(payload, null, 2));
-    
-    const response = await fetch(N8N_WEBHOOK_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
+    const feedback: ChatMessageFeedback = {
+      rating,
+      comment: comment?.trim() || undefined,
+      submittedAt: new Date(),
+    };
+    setMessages(prev => prev.map(message =>
+      message.id === assistantMessageId ? replaceActiveVariant(message, { ...message, feedback }) : message
+    ));
+
+    await feedbackService.submitFeedback({
+      ...feedback,
+      messageId: answer.id,
+      sessionId: sessionRef.current?.id,
+      question: question?.content || '',
+      answer: answer.content,
+      documentId: answer.documentId || documentId || '',
+      documentIds: answer.documentIds,
     });
+  }, [documentId]);
+
+  // Stop the answers being generated and pause the queue, so the next queued question doesn't start
+  // right away. Queued questions stay queued until resumeQueue or the next sendMessage.
+  const stopGeneration = useCallback(() => {
+    setIsQueuePaused(true);
+    abortControllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  const resumeQueue = useCallback(() => {
+    setIsQueuePaused(false);
+  }, []);
 
-    console.log('N8n response status:', response.status);
-    console.log('N8n response headers:', Object.fromEntries(response.headers.entries()));
-    
-    // Handle n8n responses - status 599 might still contain valid data
-    if (!response.ok && response.status !== 599) {
-      let errorText = '';
-      try {
-        errorText = await response.text();
-      } catch (e) {
-        console.error('Could not read error response:', e);
+  const startNewSession = useCallback(() => {
+    openSession(null);
+  }, [openSession]);
+
+  // Answers for a session the user switched away from are written straight to storage, so open the stored
+  // copy rather than the one in the session list
+  const resumeSession = useCallback(async (sessionId: string) => {
+    try {
+      const session = await chatSessionService.getSession(sessionId) || sessions.find(s => s.id === sessionId);
+      if (session) {
+        openSession(session);
       }
-      console.error('N8n error response:', errorText);
-      throw new Error(`N8n webhook error (${response.status}): ${errorText || 'Unknown error'}`);
+    } catch (error) {
+      console.error('Failed to resume chat session:', error);
     }
+  }, [sessions, openSession]);
+
+  // Open the session an archived message belongs to, switch to the branch and variant it was archived
+  // from and scroll to it. The caller selects the session's documents; when that changes the primary
+  // document the session is opened once the document's sessions have loaded.
+  const openArchivedMessage = useCallback(async (sessionId: string, messageId: string, variantIndex = 0) => {
+    const pending = { sessionId, messageId, variantIndex };
+    pendingArchivedMessageRef.current = pending;
+    setFocusedMessageId(messageId);
 
-    let responseText = '';
     try {
-      responseText = await response.text();
-      console.log('N8n raw response:', responseText);
-    } catch (e) {
-      console.error('Could not read response text:', e);
-      throw new Error('Failed to read response from n8n webhook');
-    }
-    
-    if (!responseText.trim()) {
-      throw new Error('N8n webhook returned empty response. Please check if your n8n workflow is active and properly configured to return a response.');
+      const session = await chatSessionService.getSession(sessionId);
+      if (session && session.documentId === documentIdRef.current && pendingArchivedMessageRef.current === pending) {
+        pendingArchivedMessageRef.current = null;
+        openSession(session);
+        setMessages(prev => revealMessage(prev, messageId, variantIndex));
+      }
+    } catch (error) {
+      console.error('Failed to open archived message:', error);
     }
-    
-    let data;
+  }, [openSession]);
+
+  const renameSession = useCallback(async (sessionId: string, title: string) => {
     try {
-      data = JSON.parse(responseText);
-      console.log('N8n parsed response:', data);
-    } catch (parseError) {
-      console.error('Failed to parse n8n response as JSON:', parseError);
-      console.log('Treating response as plain text since JSON parsing failed');
-      // If it's not JSON, treat the response as plain text (but only if it's not empty)
-      if (responseText.trim()) {
-        return responseText.trim();
-      } else {
-        throw new Error('N8n webhook returned empty or invalid response');
+      const renamed = await chatSessionService.renameSession(sessionId, title);
+      if (sessionRef.current?.id === sessionId) {
+        sessionRef.current = { ...sessionRef.current, title: renamed.title };
       }
+      setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, title: renamed.title } : s)));
+    } catch (error) {
+      console.error('Failed to rename chat session:', error);
     }
-    
-    // Return the entire response object so we can extract both text and knowledge graph data
-    return data;
-    
-  } catch (error) {
-    console.error('Error calling n8n workflow:', error);
-    
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error('Unable to connect to n8n webhook. Please check if the webhook URL is correct and accessible.');
+  }, []);
+
+  const deleteSession = useCallback(async (sessionId: string) => {
+    try {
+      await chatSessionService.deleteSession(sessionId);
+      setSessions(prev => prev.filter(s => s.id !== sessionId));
+      if (sessionRef.current?.id === sessionId) {
+        openSession(null);
+      }
+    } catch (error) {
+      console.error('Failed to delete chat session:', error);
     }
-    
-    if (error.message.includes('JSON') || error.message.includes('empty response')) {
-      throw new Error('N8n webhook issue: The workflow may be inactive, not properly configured, or returning invalid data. Please check your n8n workflow.');
+  }, [openSession]);
+
+  // Snapshot of the open session, e.g. for exporting it
+  const currentSession: ChatSession | null = sessionRef.current && messages.length > 0
+    ? { ...sessionRef.current, messages, updatedAt: messages[messages.length - 1].timestamp }
+    : null;
+
+  return {
+    messages,
+    sendMessage,
+    retryMessage,
+    refreshAnswer,
+    regenerateAnswer,
+    editAndResend,
+    selectVariant,
+    rateMessage,
+    cancelQueuedQuestion,
+    moveQueuedQuestion,
+    stopGeneration,
+    resumeQueue,
+    isQueuePaused,
+    isLoading,
+    isAnalyzingKnowledge,
+    knowledgeGraphData,
+    sessions,
+    currentSessionId,
+    currentSession,
+    focusedMessageId,
+    startNewSession,
+    resumeSession,
+    openArchivedMessage,
+    renameSession,
+    deleteSession,
+  };
+};
+
+// Branch bookkeeping: a message's top-level fields always mirror its active variant
+const toVariant = ({ id, variants, activeVariant, ...variant }: ChatMessage): ChatMessageVariant => variant;
+
+// Replace a message with an updated version, keeping its branches and updating the active one
+const replaceActiveVariant = (existing: ChatMessage, updated: ChatMessage): ChatMessage => {
+  if (!existing.variants || existing.activeVariant === undefined) return updated;
+
+  const variants = [...existing.variants];
+  variants[existing.activeVariant] = toVariant(updated);
+  return { ...updated, variants, activeVariant: existing.activeVariant };
+};
+
+// Show another variant of a message. The turns stored with a question variant move into the
+// conversation, so they are removed from the variant.
+const activateVariant = (message: ChatMessage, variantIndex: number): ChatMessage => {
+  const variant = message.variants?.[variantIndex];
+  if (!variant) return message;
+
+  const { laterMessages, ...shown } = variant;
+  const variants = laterMessages ? message.variants!.map((v, i) => (i === variantIndex ? shown : v)) : message.variants;
+  return { ...shown, id: message.id, variants, activeVariant: variantIndex };
+};
+
+// Keep the turns that followed a question variant with that variant while another one is shown
+const stashLaterMessages = (question: ChatMessage, variantIndex: number, laterMessages: ChatMessage[]): ChatMessage => {
+  const variants = question.variants || [toVariant(question)];
+  return {
+    ...question,
+    variants: variants.map((variant, i) =>
+      i === variantIndex ? { ...variant, laterMessages: laterMessages.length > 0 ? laterMessages : undefined } : variant
+    ),
+  };
+};
+
+// Show another variant of the question/answer turn containing messages[index], swapping the turns
+// after it for those of the other branch
+const switchBranch = (messages: ChatMessage[], index: number, variantIndex: number): ChatMessage[] => {
+  const userIndex = messages[index].sender === 'user' ? index : index - 1;
+  const question = messages[userIndex];
+  const activeVariant = question?.activeVariant ?? 0;
+  if (!question?.variants?.[variantIndex] || variantIndex === activeVariant) return messages;
+
+  const answer = messages[userIndex + 1]?.sender === 'assistant' ? messages[userIndex + 1] : undefined;
+  const turnEnd = answer ? userIndex + 2 : userIndex + 1;
+  const { stashed, pending } = splitLaterMessages(messages.slice(turnEnd));
+  const restored = question.variants[variantIndex].laterMessages || [];
+  const branched = activateVariant(stashLaterMessages(question, activeVariant, stashed), variantIndex);
+
+  return [
+    ...messages.slice(0, userIndex),
+    branched,
+    ...(answer ? [activateVariant(answer, variantIndex)] : []),
+    ...restored,
+    ...pending,
+  ];
+};
+
+const containsMessage = (messages: ChatMessage[], messageId: string): boolean =>
+  messages.some(message => message.id === messageId
+    || !!message.variants?.some(variant => variant.laterMessages && containsMessage(variant.laterMessages, messageId)));
+
+// Switch branches until the given variant of a message is shown, e.g. to open a message found in the archive
+const revealMessage = (messages: ChatMessage[], messageId: string, variantIndex: number): ChatMessage[] => {
+  const index = messages.findIndex(message => message.id === messageId);
+  if (index >= 0) {
+    return messages[index].variants ? switchBranch(messages, index, variantIndex) : messages;
+  }
+
+  for (let i = 0; i < messages.length; i++) {
+    const branchIndex = messages[i].variants?.findIndex(variant =>
+      variant.laterMessages && containsMessage(variant.laterMessages, messageId)
+    ) ?? -1;
+    if (branchIndex >= 0) {
+      return revealMessage(switchBranch(messages, i, branchIndex), messageId, variantIndex);
     }
-    
-    // Re-throw the error with the original message if it's already descriptive
-    throw error;
   }
-};
\ No newline at end of file
+  return messages;
+};
+
+// Split the turns after a branched question into those belonging to the current branch and the questions
+// still waiting in the queue, which haven't been asked yet and stay in whichever branch is shown
+const splitLaterMessages = (laterMessages: ChatMessage[]) => ({
+  stashed: laterMessages.filter(message => !message.queued),
+  pending: laterMessages.filter(message => message.queued),
+});
+
+// A /compare command also asks about the document it names
+const withIntentTarget = (documentIds: string[], intent: ChatIntent | null): string[] =>
+  intent?.targetDocumentId && !documentIds.includes(intent.targetDocumentId)
+    ? [...documentIds, intent.targetDocumentId]
+    : documentIds;
+
+// Work out which of the asked documents the answer drew from: those the backend reports, otherwise
+// the documents its sources cite, and failing that all asked documents.
+const resolveUsedDocumentIds = (response: QAResponse, askedDocumentIds: string[]): string[] => {
+  const reportedIds = (response.documentIds || []).filter(id => askedDocumentIds.includes(id));
+  if (reportedIds.length > 0) return reportedIds;
+
+  const citedIds = [...new Set((response.sources || []).map(source => source.documentId))]
+    .filter(id => askedDocumentIds.includes(id));
+  return citedIds.length > 0 ? citedIds : askedDocumentIds;
+};
+
+const isCompleteAnswer = (message?: ChatMessage) =>
+  !!message && message.sender === 'assistant' && !message.isStreaming && message.status !== 'error' && !!message.content.trim();
+
+// Select the prior messages sent as context with a question: the most recent messages up to the
+// configured count, then dropping the oldest ones until they fit in the configured character budget.
+// Questions are only sent together with their answer, so ones still queued, being answered or whose
+// answer failed are left out.
+const buildHistoryWindow = (messages: ChatMessage[]): HistoryMessage[] => {
+  const { historyMessageLimit, historyCharLimit } = settingsService.getSettings();
+  if (historyMessageLimit <= 0) return [];
+
+  const recentMessages = messages
+    .filter((message, index) => message.sender === 'user'
+      ? message.content.trim() && isCompleteAnswer(messages[index + 1])
+      : isCompleteAnswer(message))
+    .slice(-historyMessageLimit);
+
+  let totalChars = recentMessages.reduce((total, message) => total + message.content.length, 0);
+  while (recentMessages.length > 0 && totalChars > historyCharLimit) {
+    totalChars -= recentMessages.shift()!.content.length;
+  }
+
+  return recentMessages.map(message => ({
+    role: message.sender,
+    content: message.content,
+    timestamp: message.timestamp.toISOString(),
+  }));
+};
@@ -0,0 +1,74 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { googleDriveService, DocumentQuery } from '../services/googleDriveService';
+import { toDocument } from '../services/driveDocument';
+import { Document } from '../types';
+
+// Page through the Drive documents matching a query. Loaded documents are handed to onLoaded so the app
+// can chat about them; the listing itself only keeps their ids, in Drive's order. Pass null to load nothing.
+export const useDocumentListing = (query: DocumentQuery | null, onLoaded: (documents: Document[]) => void) => {
+  const [documentIds, setDocumentIds] = useState<string[]>([]);
+  const [nextPageToken, setNextPageToken] = useState<string>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onLoadedRef = useRef(onLoaded);
+  onLoadedRef.current = onLoaded;
+  // Identifies the latest request, so pages of a query the user has since changed are dropped
+  const requestIdRef = useRef(0);
+  const queryKey = query ? JSON.stringify(query) : null;
+
+  const loadPage = useCallback(async (pageToken?: string) => {
+    if (!queryKey) return;
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await googleDriveService.listDocuments(JSON.parse(queryKey), pageToken);
+      if (requestId !== requestIdRef.current) return;
+
+      const documents = page.files.map(toDocument);
+      onLoadedRef.current(documents);
+      setDocumentIds(prev => {
+        const loadedIds = documents.map(doc => doc.id);
+        return pageToken ? [...prev, ...loadedIds.filter(id => !prev.includes(id))] : loadedIds;
+      });
+      setNextPageToken(page.nextPageToken);
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Error loading documents:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load documents');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [queryKey]);
+
+  // Start over from the first page whenever the query changes
+  useEffect(() => {
+    setDocumentIds([]);
+    setNextPageToken(undefined);
+    loadPage();
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (nextPageToken && !isLoading) {
+      loadPage(nextPageToken);
+    }
+  }, [loadPage, nextPageToken, isLoading]);
+
+  // Show a newly uploaded document at the top of the listing
+  const addDocument = useCallback((documentId: string) => {
+    setDocumentIds(prev => (prev.includes(documentId) ? prev : [documentId, ...prev]));
+  }, []);
+
+  return {
+    documentIds,
+    hasMore: !!nextPageToken,
+    isLoading,
+    error,
+    loadMore,
+    reload: () => loadPage(),
+    addDocument,
+  };
+};
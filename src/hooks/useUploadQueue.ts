@@ -0,0 +1,132 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  googleDriveService,
+  FileTooLargeError,
+  GoogleDriveFile,
+  MAX_UPLOAD_BYTES,
+  UploadProgress,
+} from '../services/googleDriveService';
+import { isAbortError } from '../services/fetchWithRetry';
+
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'error' | 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  // Drive folder the file goes into; the app folder when undefined
+  folderId?: string;
+  status: UploadStatus;
+  progress?: UploadProgress;
+  // Id of the uploaded file, once it is done
+  driveFileId?: string;
+  error?: string;
+  // False for files that can never be uploaded, e.g. ones over the size limit
+  retryable: boolean;
+}
+
+// Uploads running at the same time; more mostly compete for the same upstream bandwidth
+const MAX_CONCURRENT_UPLOADS = 3;
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+// Queue of files uploaded to Google Drive a few at a time. Each file keeps its own status, so a failed
+// or cancelled upload can be retried without touching the others. Used once by App, so uploads keep
+// running while the user is on another page.
+export const useUploadQueue = (onUploaded: (driveFile: GoogleDriveFile, file: File) => void) => {
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  // One controller per running upload, keyed by item id
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadQueueItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const upload = useCallback(async (item: UploadQueueItem) => {
+    const controller = new AbortController();
+    abortControllersRef.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', progress: undefined, error: undefined });
+
+    try {
+      const driveFile = await googleDriveService.uploadFile(item.file, {
+        folderId: item.folderId,
+        signal: controller.signal,
+        onProgress: progress => updateItem(item.id, { progress }),
+      });
+      updateItem(item.id, { status: 'done', driveFileId: driveFile.id });
+      onUploadedRef.current(driveFile, item.file);
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateItem(item.id, { status: 'cancelled' });
+        return;
+      }
+      console.error(`Upload of ${item.file.name} failed:`, error);
+      updateItem(item.id, { status: 'error', error: error instanceof Error ? error.message : 'Upload failed' });
+    } finally {
+      abortControllersRef.current.delete(item.id);
+    }
+  }, [updateItem]);
+
+  // Start queued uploads in order while there are free slots
+  useEffect(() => {
+    const freeSlots = MAX_CONCURRENT_UPLOADS - abortControllersRef.current.size;
+    if (freeSlots <= 0) return;
+
+    items
+      .filter(item => item.status === 'queued' && !abortControllersRef.current.has(item.id))
+      .slice(0, freeSlots)
+      .forEach(upload);
+  }, [items, upload]);
+
+  // Queue PDFs for upload into a folder. Files over the size limit are listed as failed straight away.
+  // Returns the number of files skipped because they are not PDFs.
+  const addFiles = useCallback((files: File[], folderId?: string): number => {
+    const pdfs = files.filter(isPdf);
+    setItems(prev => [
+      ...prev,
+      ...pdfs.map((file): UploadQueueItem =>
+        file.size > MAX_UPLOAD_BYTES
+          ? { id: crypto.randomUUID(), file, folderId, status: 'error', error: new FileTooLargeError(file).message, retryable: false }
+          : { id: crypto.randomUUID(), file, folderId, status: 'queued', retryable: true }
+      ),
+    ]);
+    return files.length - pdfs.length;
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id && item.retryable && (item.status === 'error' || item.status === 'cancelled')
+        ? { ...item, status: 'queued', progress: undefined, error: undefined }
+        : item
+    ));
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const controller = abortControllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    setItems(prev => prev.map(item => (item.id === id && item.status === 'queued' ? { ...item, status: 'cancelled' } : item)));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id || item.status === 'uploading'));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+  }, []);
+
+  return {
+    items,
+    addFiles,
+    retry,
+    cancel,
+    remove,
+    clearFinished,
+  };
+};
+
+export type UploadQueue = ReturnType<typeof useUploadQueue>;
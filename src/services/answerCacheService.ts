@@ -0,0 +1,146 @@
+import { Document } from '../types';
+import { HistoryMessage, QABackendId, QAResponse } from './qaBackend';
+import { googleDriveService } from './googleDriveService';
+import { settingsService } from './settingsService';
+
+// Local cache of backend answers, so repeated questions about unchanged documents don't pay for
+// another workflow run. Entries are keyed by the normalised question, the backend, a hash of the
+// conversation history sent with it and the Drive file ids with their modification times, and expire
+// after the configured TTL.
+
+const STORAGE_KEY = 'dtt-document-qa.answerCache';
+const MAX_ENTRIES = 200;
+
+type CachedResponse = Omit<QAResponse, 'raw'>;
+
+interface CacheEntry {
+  response: CachedResponse;
+  cachedAt: number;
+}
+
+export interface CachedAnswer {
+  response: CachedResponse;
+  cachedAt: Date;
+}
+
+// "What are the  Termination clauses?" and "what are the termination clauses" share an entry
+const normalizeQuestion = (question: string) =>
+  question.toLowerCase().replace(/\s+/g, ' ').replace(/[?.!\s]+$/, '').trim();
+
+const documentVersion = (document: Document) =>
+  `${document.driveFileId}@${document.metadata?.modifiedTime || document.metadata?.createdTime || ''}`;
+
+// The same question means something else after a different conversation ("and the second one?"), so
+// the history window is part of the key. Timestamps are left out; only what was said matters.
+const hashHistory = async (history: HistoryMessage[]) => {
+  if (history.length === 0) return '';
+  const content = new TextEncoder().encode(JSON.stringify(history.map(({ role, content }) => [role, content])));
+  const digest = await crypto.subtle.digest('SHA-256', content);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// The documents' metadata is only refreshed when they are listed, so ask Drive whether any of them
+// changed since. A failed lookup counts as changed.
+const isUnchangedInDrive = async (documents: Document[]) => {
+  try {
+    const files = await Promise.all(documents.map(doc => googleDriveService.getFile(doc.driveFileId)));
+    return files.every((file, index) => file.modifiedTime === documents[index].metadata?.modifiedTime);
+  } catch (error) {
+    console.warn('Could not check the documents in Drive, not using the cached answer:', error);
+    return false;
+  }
+};
+
+class AnswerCacheService {
+  private entries: Record<string, CacheEntry>;
+
+  constructor() {
+    this.entries = this.load();
+  }
+
+  private load(): Record<string, CacheEntry> {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to read the answer cache, starting empty:', error);
+      return {};
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      // Most likely the storage quota; drop the cache rather than failing the answer
+      console.error('Failed to persist the answer cache, clearing it:', error);
+      this.entries = {};
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  private getTtlMs() {
+    return settingsService.getSettings().answerCacheTtlMinutes * 60 * 1000;
+  }
+
+  private async buildKey(question: string, documents: Document[], backendId: QABackendId, history: HistoryMessage[]) {
+    const versions = documents.map(documentVersion).sort();
+    return JSON.stringify([backendId, normalizeQuestion(question), versions, await hashHistory(history)]);
+  }
+
+  async get(
+    question: string,
+    documents: Document[],
+    backendId: QABackendId,
+    history: HistoryMessage[]
+  ): Promise<CachedAnswer | null> {
+    const ttlMs = this.getTtlMs();
+    if (ttlMs <= 0) return null;
+
+    const key = await this.buildKey(question, documents, backendId, history);
+    const entry = this.entries[key];
+    if (!entry) return null;
+
+    if (Date.now() - entry.cachedAt > ttlMs || !(await isUnchangedInDrive(documents))) {
+      delete this.entries[key];
+      this.persist();
+      return null;
+    }
+    return { response: entry.response, cachedAt: new Date(entry.cachedAt) };
+  }
+
+  async set(
+    question: string,
+    documents: Document[],
+    backendId: QABackendId,
+    history: HistoryMessage[],
+    { raw, ...response }: QAResponse
+  ): Promise<void> {
+    if (this.getTtlMs() <= 0) return;
+
+    this.entries[await this.buildKey(question, documents, backendId, history)] = { response, cachedAt: Date.now() };
+
+    // Keep the cache bounded by dropping the oldest entries
+    const keys = Object.keys(this.entries);
+    if (keys.length > MAX_ENTRIES) {
+      keys
+        .sort((a, b) => this.entries[a].cachedAt - this.entries[b].cachedAt)
+        .slice(0, keys.length - MAX_ENTRIES)
+        .forEach(key => delete this.entries[key]);
+    }
+    this.persist();
+  }
+
+  clear(): void {
+    this.entries = {};
+    this.persist();
+  }
+
+  get size(): number {
+    return Object.keys(this.entries).length;
+  }
+}
+
+export const answerCacheService = new AnswerCacheService();
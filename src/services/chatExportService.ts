@@ -0,0 +1,198 @@
+import { createElement, FunctionComponent } from 'react';
+import ReactMarkdown, { Options as MarkdownOptions } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ChatMessage, ChatSession, ChatSource, Document } from '../types';
+import { downloadFile } from './downloadFile';
+
+export type ChatExportFormat = 'markdown' | 'json' | 'print';
+
+const PRINT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; max-width: 800px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  header { border-bottom: 2px solid #111827; margin-bottom: 24px; padding-bottom: 12px; }
+  h1 { font-size: 22px; margin: 0 0 8px; }
+  .meta { color: #4b5563; font-size: 13px; margin: 2px 0; }
+  .message { margin-bottom: 20px; page-break-inside: avoid; }
+  .sender { font-weight: 600; font-size: 13px; text-transform: uppercase; letter-spacing: 0.04em; color: #374151; }
+  .time { font-weight: normal; color: #6b7280; text-transform: none; letter-spacing: 0; margin-left: 8px; }
+  .question { background: #eff6ff; border-left: 3px solid #2563eb; padding: 8px 12px; white-space: pre-wrap; }
+  .answer { border-left: 3px solid #9ca3af; padding: 0 12px; }
+  .status { color: #b91c1c; font-size: 13px; }
+  .sources { font-size: 12px; color: #374151; margin-top: 8px; }
+  .sources blockquote { margin: 2px 0 6px 0; padding-left: 8px; border-left: 2px solid #d1d5db; color: #6b7280; font-style: italic; }
+  pre, code { background: #f3f4f6; font-size: 12px; }
+  pre { padding: 8px; overflow-x: auto; }
+  table { border-collapse: collapse; } th, td { border: 1px solid #d1d5db; padding: 4px 8px; }
+  @media print { body { margin: 0; } }
+`;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatTimestamp = (date: Date) => new Date(date).toLocaleString();
+
+// Safe file name from the session title, e.g. "What are the key risks" -> "what-are-the-key-risks-2024-05-01"
+const buildFileName = (session: ChatSession, extension: string) => {
+  const slug = session.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'chat';
+  const date = new Date(session.updatedAt).toISOString().slice(0, 10);
+  return `${slug}-${date}.${extension}`;
+};
+
+// react-markdown's propTypes don't line up with @types/react's, so type it as a plain function component
+const Markdown: FunctionComponent<MarkdownOptions> = ReactMarkdown as (options: MarkdownOptions) => ReturnType<typeof ReactMarkdown>;
+
+// Answers are rendered to HTML only for the print view, so the server renderer is loaded on first use
+type RenderToStaticMarkup = typeof import('react-dom/server').renderToStaticMarkup;
+
+// Turns chat sessions into shareable transcripts (Markdown, JSON, printable HTML)
+class ChatExportService {
+  // Export a session in the given format. Markdown and JSON are downloaded; 'print' opens a printable view.
+  async exportSession(session: ChatSession, documents: Document[], format: ChatExportFormat): Promise<void> {
+    switch (format) {
+      case 'markdown':
+        downloadFile(this.toMarkdown(session, documents), buildFileName(session, 'md'), 'text/markdown;charset=utf-8');
+        break;
+      case 'json':
+        downloadFile(this.toJSON(session), buildFileName(session, 'json'), 'application/json;charset=utf-8');
+        break;
+      case 'print':
+        await this.openPrintView(session, documents);
+        break;
+    }
+  }
+
+  toMarkdown(session: ChatSession, documents: Document[]): string {
+    const lines = [
+      `# ${session.title}`,
+      '',
+      `**Documents:** ${this.getDocumentNames(session, documents).join(', ')}`,
+      `**Started:** ${formatTimestamp(session.createdAt)}`,
+      `**Last updated:** ${formatTimestamp(session.updatedAt)}`,
+      '',
+      '---',
+      '',
+    ];
+
+    session.messages.forEach(message => {
+      const sender = message.sender === 'user' ? 'Question' : 'Answer';
+      lines.push(`### ${sender} · ${formatTimestamp(message.timestamp)}`, '');
+
+      lines.push(message.sender === 'user' ? message.content.split('\n').map(line => `> ${line}`).join('\n') : message.content);
+      if (message.status) {
+        lines.push('', `_${message.status === 'error' ? `Error: ${message.error || 'The request failed.'}` : 'Stopped.'}_`);
+      }
+
+      if (message.sources && message.sources.length > 0) {
+        lines.push('', '**Sources**', '');
+        message.sources.forEach((source, index) => {
+          lines.push(`${index + 1}. ${this.describeSource(source, documents)}`);
+          if (source.snippet) {
+            lines.push(`   > ${source.snippet}`);
+          }
+        });
+      }
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  }
+
+  // Serialises the session exactly as stored, so it can be re-imported or audited against the ChatSession type
+  toJSON(session: ChatSession): string {
+    return JSON.stringify(session, null, 2);
+  }
+
+  async toHTML(session: ChatSession, documents: Document[]): Promise<string> {
+    const { renderToStaticMarkup } = await import('react-dom/server');
+    const documentNames = this.getDocumentNames(session, documents).map(escapeHtml).join(', ');
+    const messages = session.messages.map(message => this.messageToHTML(message, documents, renderToStaticMarkup)).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(session.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(session.title)}</h1>
+  <p class="meta"><strong>Documents:</strong> ${documentNames}</p>
+  <p class="meta"><strong>Started:</strong> ${escapeHtml(formatTimestamp(session.createdAt))} · <strong>Last updated:</strong> ${escapeHtml(formatTimestamp(session.updatedAt))}</p>
+</header>
+${messages}
+</body>
+</html>`;
+  }
+
+  // Open the transcript in a new window and bring up the browser's print dialog (which can save as PDF)
+  async openPrintView(session: ChatSession, documents: Document[]): Promise<void> {
+    // Open the window straight away, while the click still allows pop-ups
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error('Could not open the print view. Please allow pop-ups for this site.');
+    }
+
+    let html: string;
+    try {
+      html = await this.toHTML(session, documents);
+    } catch (error) {
+      printWindow.close();
+      throw error;
+    }
+    printWindow.document.open();
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  }
+
+  private messageToHTML(message: ChatMessage, documents: Document[], renderToStaticMarkup: RenderToStaticMarkup): string {
+    const sender = message.sender === 'user' ? 'Question' : 'Answer';
+    const body = message.sender === 'user'
+      ? `<div class="question">${escapeHtml(message.content)}</div>`
+      : `<div class="answer">${renderToStaticMarkup(createElement(Markdown, { children: message.content, remarkPlugins: [remarkGfm] }))}</div>`;
+
+    const status = message.status
+      ? `<p class="status">${escapeHtml(message.status === 'error' ? `Error: ${message.error || 'The request failed.'}` : 'Stopped.')}</p>`
+      : '';
+
+    const sources = message.sources && message.sources.length > 0
+      ? `<div class="sources"><strong>Sources</strong><ol>${message.sources.map(source => `<li>${escapeHtml(this.describeSource(source, documents))}${
+          source.snippet ? `<blockquote>"${escapeHtml(source.snippet)}"</blockquote>` : ''
+        }</li>`).join('')}</ol></div>`
+      : '';
+
+    return `<section class="message">
+  <div class="sender">${sender}<span class="time">${escapeHtml(formatTimestamp(message.timestamp))}</span></div>
+  ${body}${status}${sources}
+</section>`;
+  }
+
+  // "Report.pdf, p. 12 (https://drive.google.com/...)"
+  private describeSource(source: ChatSource, documents: Document[]): string {
+    const document = documents.find(doc => doc.id === source.documentId);
+    let description = document?.name || source.documentId;
+    if (source.pageNumber !== undefined) {
+      description += `, p. ${source.pageNumber}`;
+    }
+    if (document?.webViewLink) {
+      description += ` (${document.webViewLink})`;
+    }
+    return description;
+  }
+
+  private getDocumentNames(session: ChatSession, documents: Document[]): string[] {
+    const ids = session.documentIds && session.documentIds.length > 0 ? session.documentIds : [session.documentId];
+    return ids.map(id => documents.find(doc => doc.id === id)?.name || id);
+  }
+}
+
+export const chatExportService = new ChatExportService();
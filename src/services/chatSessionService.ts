@@ -0,0 +1,221 @@
+import { ChatMessage, ChatSession } from '../types';
+
+const DB_NAME = 'dtt-document-qa';
+// v2 adds the searchable message archive, v3 archives every variant of a message
+const DB_VERSION = 3;
+const SESSIONS_STORE = 'sessions';
+const MESSAGES_STORE = 'messages';
+const SEARCH_RESULT_LIMIT = 50;
+
+// A message as recorded in the archive, with enough of its session to display and open it.
+// Each variant of a message, including those in branches that aren't shown, has its own entry.
+export interface ArchivedMessage {
+  // "<messageId>:<variantIndex>"
+  id: string;
+  messageId: string;
+  variantIndex: number;
+  sessionId: string;
+  sessionTitle: string;
+  // Primary document and full document selection of the session
+  documentId: string;
+  sessionDocumentIds: string[];
+  sender: ChatMessage['sender'];
+  content: string;
+  timestamp: Date;
+}
+
+const toArchivedMessages = (session: ChatSession): ArchivedMessage[] => {
+  const archive = (messages: ChatMessage[]): ArchivedMessage[] =>
+    messages.flatMap(message => (message.variants || [message]).flatMap((variant, variantIndex) => [
+      ...(!variant.isStreaming && variant.content.trim()
+        ? [{
+            id: `${message.id}:${variantIndex}`,
+            messageId: message.id,
+            variantIndex,
+            sessionId: session.id,
+            sessionTitle: session.title,
+            documentId: session.documentId,
+            sessionDocumentIds: session.documentIds || [session.documentId],
+            sender: variant.sender,
+            content: variant.content,
+            timestamp: variant.timestamp,
+          }]
+        : []),
+      // Turns in branches that aren't shown are kept with their question variant
+      ...('laterMessages' in variant && variant.laterMessages ? archive(variant.laterMessages) : []),
+    ]));
+
+  return archive(session.messages);
+};
+
+class ChatSessionService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Open (and create on first use) the IndexedDB database holding chat sessions
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('documentId', 'documentId', { unique: false });
+        }
+        let messages: IDBObjectStore;
+        if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+          messages = db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+          messages.createIndex('sessionId', 'sessionId', { unique: false });
+          messages.createIndex('timestamp', 'timestamp', { unique: false });
+        } else {
+          messages = request.transaction!.objectStore(MESSAGES_STORE);
+          messages.clear();
+        }
+
+        // Archive the messages of sessions saved before the archive (or its current layout) existed
+        const sessionsRequest = request.transaction!.objectStore(SESSIONS_STORE).getAll();
+        sessionsRequest.onsuccess = () => {
+          (sessionsRequest.result as ChatSession[])
+            .flatMap(toArchivedMessages)
+            .forEach(message => messages.put(message));
+        };
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+
+    return this.dbPromise;
+  }
+
+  // Run a single request against the sessions store and resolve with its result
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(SESSIONS_STORE, mode);
+      const request = operation(transaction.objectStore(SESSIONS_STORE));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+  }
+
+  // Run several requests in one transaction over the given stores
+  private async withTransaction(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    operation: (transaction: IDBTransaction) => void
+  ): Promise<void> {
+    const db = await this.openDatabase();
+
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      operation(transaction);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+  }
+
+  // List all sessions for a document, most recently updated first
+  async listSessions(documentId: string): Promise<ChatSession[]> {
+    const sessions = await this.withStore<ChatSession[]>('readonly', store =>
+      store.index('documentId').getAll(IDBKeyRange.only(documentId))
+    );
+
+    return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | undefined> {
+    return this.withStore<ChatSession | undefined>('readonly', store => store.get(sessionId));
+  }
+
+  // Store a session and bring its messages in the archive up to date, removing messages no longer in it
+  async saveSession(session: ChatSession): Promise<void> {
+    await this.withTransaction([SESSIONS_STORE, MESSAGES_STORE], 'readwrite', transaction => {
+      transaction.objectStore(SESSIONS_STORE).put(session);
+      const archive = transaction.objectStore(MESSAGES_STORE);
+      const archivedMessages = toArchivedMessages(session);
+      const currentIds = new Set(archivedMessages.map(message => message.id));
+
+      const keysRequest = archive.index('sessionId').getAllKeys(IDBKeyRange.only(session.id));
+      keysRequest.onsuccess = () => keysRequest.result
+        .filter(key => !currentIds.has(key as string))
+        .forEach(key => archive.delete(key));
+      archivedMessages.forEach(message => archive.put(message));
+    });
+  }
+
+  async renameSession(sessionId: string, title: string): Promise<ChatSession> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Chat session ${sessionId} not found`);
+    }
+
+    const renamed: ChatSession = { ...session, title: title.trim() || session.title };
+    await this.saveSession(renamed);
+    return renamed;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.withTransaction([SESSIONS_STORE, MESSAGES_STORE], 'readwrite', transaction => {
+      transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+      const archive = transaction.objectStore(MESSAGES_STORE);
+      const keysRequest = archive.index('sessionId').getAllKeys(IDBKeyRange.only(sessionId));
+      keysRequest.onsuccess = () => keysRequest.result.forEach(key => archive.delete(key));
+    });
+  }
+
+  // Search archived messages across all documents, newest first. Every word of the query must appear
+  // in the message (case-insensitive).
+  async searchMessages(query: string, limit = SEARCH_RESULT_LIMIT): Promise<ArchivedMessage[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const results: ArchivedMessage[] = [];
+    await this.withTransaction([MESSAGES_STORE], 'readonly', transaction => {
+      const cursorRequest = transaction.objectStore(MESSAGES_STORE).index('timestamp').openCursor(null, 'prev');
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+
+        const message = cursor.value as ArchivedMessage;
+        const text = message.content.toLowerCase();
+        if (terms.every(term => text.includes(term))) {
+          results.push(message);
+        }
+        if (results.length < limit) {
+          cursor.continue();
+        }
+      };
+    });
+
+    return results;
+  }
+
+  // Derive a readable default title from the first question in the session
+  createTitle(firstQuestion?: string): string {
+    if (!firstQuestion) return 'New chat';
+    const singleLine = firstQuestion.replace(/\s+/g, ' ').trim();
+    return singleLine.length > 60 ? `${singleLine.substring(0, 57)}...` : singleLine;
+  }
+}
+
+export const chatSessionService = new ChatSessionService();
@@ -0,0 +1,50 @@
+import { googleDriveService, GoogleDriveFile } from './googleDriveService';
+import { Document } from '../types';
+
+export const toDocument = (file: GoogleDriveFile): Document => ({
+  id: file.id,
+  name: file.name,
+  size: parseInt(file.size) || 0,
+  type: file.mimeType,
+  uploadedAt: new Date(file.createdTime),
+  driveFileId: file.id,
+  webViewLink: file.webViewLink,
+  webContentLink: file.webContentLink,
+  shareableLink: `https://drive.google.com/uc?id=${file.id}&export=download`,
+  metadata: {
+    driveId: file.id,
+    folderId: file.parents?.[0],
+    createdTime: file.createdTime,
+    modifiedTime: file.modifiedTime,
+  },
+});
+
+// The documents with the given ids, in the same order. Ones that aren't among the loaded documents, e.g.
+// from a stored session about another engagement, are fetched from Drive; ones Drive can't find are
+// left out. Drive client requests can't be cancelled, so aborting the signal only stops waiting for them.
+export const loadDocuments = async (
+  documentIds: string[],
+  loaded: Document[],
+  signal?: AbortSignal
+): Promise<Document[]> => {
+  const cancelled = new Promise<never>((_, reject) => {
+    const rejectCancelled = () => reject(new DOMException('Loading the documents was cancelled', 'AbortError'));
+    if (signal?.aborted) rejectCancelled();
+    signal?.addEventListener('abort', rejectCancelled, { once: true });
+  });
+  // Aborting after the documents have loaded is not an error
+  cancelled.catch(() => {});
+
+  const loading = Promise.all(documentIds.map(async id => {
+    const existing = loaded.find(doc => doc.id === id);
+    if (existing) return existing;
+    try {
+      return toDocument(await googleDriveService.getFile(id));
+    } catch (error) {
+      console.warn(`Document ${id} could not be loaded from Google Drive:`, error);
+      return null;
+    }
+  }));
+  const documents = await Promise.race([loading, cancelled]);
+  return documents.filter((doc): doc is Document => !!doc);
+};
@@ -0,0 +1,47 @@
+// Files from a drag-and-drop, including everything inside dropped folders (recursively)
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns directory contents in batches and an empty batch at the end
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await readFile(entry as FileSystemFileEntry)];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(collectEntryFiles))).flat();
+  }
+  return [];
+};
+
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries and files have to be taken while the drop event is being handled; the lists are emptied afterwards
+  const topLevelFiles = Array.from(dataTransfer.files);
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Browsers without the entries API only give us the top-level files
+  if (entries.length === 0) {
+    return topLevelFiles;
+  }
+
+  try {
+    return (await Promise.all(entries.map(collectEntryFiles))).flat();
+  } catch (error) {
+    console.error('Failed to read dropped folder:', error);
+    return topLevelFiles;
+  }
+};
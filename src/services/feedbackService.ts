@@ -0,0 +1,48 @@
+import { ChatMessageFeedback } from '../types';
+import { fetchWithRetry } from './fetchWithRetry';
+import { settingsService } from './settingsService';
+
+export interface AnswerFeedback extends ChatMessageFeedback {
+  messageId: string;
+  sessionId?: string;
+  question: string;
+  answer: string;
+  documentId: string;
+  documentIds?: string[];
+}
+
+// Sends answer ratings to the configured feedback webhook so the workflow authors can tune their prompts
+class FeedbackService {
+  // POST a rating to the feedback webhook. Does nothing when no webhook is configured.
+  async submitFeedback(feedback: AnswerFeedback): Promise<void> {
+    const { feedbackWebhookUrl, requestTimeoutSeconds, maxRetries } = settingsService.getSettings();
+    const url = feedbackWebhookUrl.trim();
+    if (!url) {
+      console.log('No feedback webhook configured, keeping rating locally only');
+      return;
+    }
+
+    const payload = {
+      ...feedback,
+      submittedAt: feedback.submittedAt.toISOString(),
+    };
+
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    }, {
+      timeoutMs: requestTimeoutSeconds * 1000,
+      maxRetries,
+      // Lets the webhook count a rating once when a retry repeats a request it already received
+      idempotencyKey: crypto.randomUUID(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`Feedback webhook error (${response.status}): ${errorText || response.statusText || 'Unknown error'}`);
+    }
+  }
+}
+
+export const feedbackService = new FeedbackService();
@@ -0,0 +1,163 @@
+// fetch() wrapper adding a per-attempt timeout, cancellation and retries with exponential backoff.
+// Requests that aren't idempotent are not retried, as the server may already have acted on them.
+
+export interface RetryOptions {
+  // Cancels the request (including reading a streamed body) when aborted by the caller
+  signal?: AbortSignal;
+  // Maximum time to wait for response headers on each attempt, and then for each chunk of the body
+  timeoutMs: number;
+  // Additional attempts after the first one for network errors and 5xx responses
+  maxRetries: number;
+  baseDelayMs?: number;
+  // Sent as an Idempotency-Key header on every attempt so the server can recognise a request it already handled
+  idempotencyKey?: string;
+  // Marks a request as safe to send twice without a key, e.g. one without side effects.
+  // Otherwise only GET, HEAD, PUT, DELETE and OPTIONS requests and requests with an idempotency key are retried.
+  idempotent?: boolean;
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+// Thrown by callers for responses with an error status, so the status can be shown with the failure
+export class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const createAbortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+// Wait before the next attempt, waking up early if the caller cancels
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const isRetryableStatus = (status: number) => status >= 500 && status <= 599;
+
+// Methods that can be sent twice without changing the outcome, e.g. after a connection dropped mid-request
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+// Pass the response body through, aborting the request when the next chunk doesn't arrive in time
+const withBodyTimeout = (
+  response: Response,
+  controller: AbortController,
+  timeoutMs: number,
+  onDone: () => void
+): Response => {
+  if (!response.body) {
+    onDone();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(streamController) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+      try {
+        const { done, value } = await reader.read();
+        clearTimeout(timer);
+        if (done) {
+          onDone();
+          streamController.close();
+        } else {
+          streamController.enqueue(value);
+        }
+      } catch (error) {
+        clearTimeout(timer);
+        onDone();
+        streamController.error(timedOut ? new RequestTimeoutError(timeoutMs) : error);
+      }
+    },
+    cancel(reason) {
+      clearTimeout(timer);
+      onDone();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+};
+
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit,
+  { signal, timeoutMs, maxRetries, baseDelayMs = 1000, idempotencyKey, idempotent }: RetryOptions
+): Promise<Response> => {
+  const canRetry = idempotent || !!idempotencyKey || IDEMPOTENT_METHODS.includes((init.method || 'GET').toUpperCase());
+  const retryLimit = canRetry ? maxRetries : 0;
+  const headers = new Headers(init.headers);
+  if (idempotencyKey) {
+    headers.set('Idempotency-Key', idempotencyKey);
+  }
+  let attempt = 0;
+
+  while (true) {
+    if (signal?.aborted) throw createAbortError();
+
+    // Each attempt gets its own controller, aborted by either the caller or the timeout
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    let retryReason: string;
+    try {
+      const response = await fetch(url, { ...init, headers, signal: controller.signal });
+      clearTimeout(timer);
+
+      if (!isRetryableStatus(response.status) || attempt >= retryLimit) {
+        return withBodyTimeout(response, controller, timeoutMs, () => signal?.removeEventListener('abort', forwardAbort));
+      }
+      retryReason = `HTTP ${response.status}`;
+      signal?.removeEventListener('abort', forwardAbort);
+    } catch (error) {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+
+      if (timedOut) throw new RequestTimeoutError(timeoutMs);
+      if (signal?.aborted || isAbortError(error)) throw createAbortError();
+      // fetch() rejects with a TypeError for network failures; anything else is not transient
+      if (!(error instanceof TypeError) || attempt >= retryLimit) throw error;
+      retryReason = error.message || 'network error';
+    }
+
+    attempt++;
+    const backoffMs = baseDelayMs * 2 ** (attempt - 1) + Math.random() * baseDelayMs * 0.25;
+    console.warn(`Request to ${url} failed (${retryReason}), retrying in ${Math.round(backoffMs)}ms (attempt ${attempt + 1}/${retryLimit + 1})`);
+    await sleep(backoffMs, signal);
+  }
+};
@@ -1,84 +1,295 @@
-interface GoogleDriveFile {
+import { sleep } from './fetchWithRetry';
+import { settingsService } from './settingsService';
+
+export interface GoogleDriveFile {
   id: string;
   name: string;
   mimeType: string;
   size: string;
   createdTime: string;
+  modifiedTime: string;
   webViewLink: string;
   webContentLink: string;
+  parents?: string[];
 }
 
-class GoogleDriveService {
-  private gapi: any = null;
-  private _isInitialized = false;
-  private _isAuthenticated = false;
+// An engagement subfolder of the app folder
+export interface DriveFolder {
+  id: string;
+  name: string;
+  createdTime: string;
+}
 
-  constructor() {
-    this.loadGoogleAPI();
-  }
+// Response passed to a Google Identity Services token client callback
+interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+  error?: string;
+  error_description?: string;
+}
 
-  private async loadGoogleAPI(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (typeof window === 'undefined') {
-        reject(new Error('Google API can only be loaded in browser environment'));
-        return;
-      }
+interface TokenClient {
+  callback: (response: TokenResponse) => void;
+  error_callback?: (error: { type: string; message?: string }) => void;
+  requestAccessToken: (overrides?: { prompt?: string }) => void;
+}
 
-      // Check if gapi is already loaded
-      if (window.gapi) {
-        this.gapi = window.gapi;
-        resolve();
-        return;
-      }
+interface TokenClientConfig {
+  client_id: string;
+  scope: string;
+  callback: TokenClient['callback'];
+  error_callback?: TokenClient['error_callback'];
+}
 
-      // Load the Google API script
-      const script = document.createElement('script');
-      script.src = 'https://apis.google.com/js/api.js';
-      script.onload = () => {
-        this.gapi = window.gapi;
-        resolve();
-      };
-      script.onerror = () => {
-        reject(new Error('Failed to load Google API'));
+// The parts of the gapi Drive client used here. Requests resolve with the parsed body in `result` and
+// reject with an object carrying the HTTP `status`.
+type DriveRequest = <T>(params: Record<string, unknown>) => Promise<{ result: T }>;
+
+interface GapiClient {
+  init: (config: { apiKey?: string; discoveryDocs: string[] }) => Promise<void>;
+  setToken: (token: { access_token: string } | null) => void;
+  drive: {
+    files: {
+      list: DriveRequest;
+      get: DriveRequest;
+      create: DriveRequest;
+      update: DriveRequest;
+      delete: DriveRequest;
+    };
+  };
+}
+
+interface Gapi {
+  load: (libraries: string, options: { callback: () => void; onerror: (error: unknown) => void }) => void;
+  client: GapiClient;
+}
+
+// Filters for listing documents; all of them are applied by Drive
+export interface DocumentQuery {
+  // Folder to list; the app folder and all of its engagement folders when omitted
+  folderId?: string;
+  // The folders to list when folderId is omitted, if the caller already knows them. Otherwise they are
+  // looked up in Drive for every page.
+  folderIds?: string[];
+  text?: string;
+  // Match the text against file names, or against the content of the PDFs
+  searchIn?: 'name' | 'fullText';
+  // Inclusive range of upload dates, as yyyy-mm-dd in local time
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+export interface DocumentPage {
+  files: GoogleDriveFile[];
+  // Set when there are more results
+  nextPageToken?: string;
+}
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+  // Set while the upload waits to resume after a dropped connection
+  resuming?: boolean;
+}
+
+export interface UploadOptions {
+  // Engagement folder to upload into; the app folder itself when omitted
+  folderId?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+export class FileTooLargeError extends Error {
+  constructor(file: File) {
+    super(`"${file.name}" is ${(file.size / 1024 / 1024).toFixed(1)} MB. Files larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB can't be uploaded.`);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+interface StoredToken {
+  accessToken: string;
+  // Unix milliseconds
+  expiresAt: number;
+}
+
+// Set by the gapi and Google Identity Services scripts once they have loaded
+declare global {
+  interface Window {
+    gapi?: Gapi;
+    google?: {
+      accounts: {
+        oauth2: {
+          initTokenClient: (config: TokenClientConfig) => TokenClient;
+        };
       };
-      document.head.appendChild(script);
-    });
+    };
   }
+}
+
+const GAPI_SCRIPT_URL = 'https://apis.google.com/js/api.js';
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+const DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive.file';
+const FILE_FIELDS = 'id,name,mimeType,size,createdTime,modifiedTime,webViewLink,webContentLink,parents';
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const DOCUMENT_PAGE_SIZE = 50;
+// Kept per tab so a reload doesn't ask the user to sign in again while the token is valid
+const TOKEN_STORAGE_KEY = 'dtt-document-qa.driveToken';
+// Refresh tokens this long before Google expires them, so requests in flight don't fail
+const EXPIRY_MARGIN_MS = 60 * 1000;
+// Resumable upload chunks must be a multiple of 256 KB
+const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024;
+// Consecutive failed attempts to continue an upload before giving up, with exponential backoff
+const MAX_UPLOAD_RESUME_ATTEMPTS = 6;
+
+const loadScript = (src: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (typeof window === 'undefined') {
+      reject(new Error('Google API can only be loaded in browser environment'));
+      return;
+    }
+
+    const existing = document.querySelector<HTMLScriptElement>(`script[src="${src}"]`);
+    if (existing?.dataset.loaded) {
+      resolve();
+      return;
+    }
+
+    const script = existing || document.createElement('script');
+    script.addEventListener('load', () => {
+      script.dataset.loaded = 'true';
+      resolve();
+    });
+    script.addEventListener('error', () => reject(new Error(`Failed to load ${src}`)));
+    if (!existing) {
+      script.src = src;
+      script.async = true;
+      document.head.appendChild(script);
+    }
+  });
+
+interface UploadResponse {
+  // 0 when the connection failed before a response arrived
+  status: number;
+  range: string | null;
+  body: string;
+}
+
+// PUT to a resumable upload session. Uses XMLHttpRequest because fetch() can't report upload progress.
+const sendUploadRequest = (
+  url: string,
+  headers: Record<string, string>,
+  body: Blob | null,
+  signal?: AbortSignal,
+  onUploadProgress?: (loadedBytes: number) => void
+): Promise<UploadResponse> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The upload was cancelled', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    const finish = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.open('PUT', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = event => onUploadProgress?.(event.loaded);
+    xhr.onload = () => {
+      finish();
+      resolve({ status: xhr.status, range: xhr.getResponseHeader('Range'), body: xhr.responseText });
+    };
+    xhr.onerror = () => {
+      finish();
+      resolve({ status: 0, range: null, body: '' });
+    };
+    xhr.onabort = () => {
+      finish();
+      reject(new DOMException('The upload was cancelled', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(body);
+  });
+
+// Drive reports the bytes it has stored as "bytes=0-<last byte>"; no header means nothing yet
+const nextUploadOffset = (range: string | null) => {
+  const match = range?.match(/bytes=0-(\d+)/);
+  return match ? Number(match[1]) + 1 : 0;
+};
+
+// Quote a value for a Drive search query
+const quoteQueryValue = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+// Both fetch responses and gapi client errors carry the HTTP status in `status`
+const isUnauthorized = (error: unknown) => (error as { status?: number } | null)?.status === 401;
+
+class GoogleDriveService {
+  private gapi: Gapi | null = null;
+  private tokenClient: TokenClient | null = null;
+  private token: StoredToken | null = null;
+  // Shared by concurrent callers so only one token request is in flight
+  private pendingTokenRequest: Promise<StoredToken> | null = null;
+  // App folder id by folder name, so renaming the folder in settings switches to (or creates) the new one
+  private appFolderIds = new Map<string, Promise<string>>();
+  private _isInitialized = false;
+  private _isAuthenticated = false;
 
   async initialize(): Promise<void> {
-    if (this.isInitialized) return;
+    if (this._isInitialized) return;
 
     try {
-      await this.loadGoogleAPI();
-      
+      // gapi is only used as the Drive API client; sign-in goes through Google Identity Services
+      await Promise.all([loadScript(GAPI_SCRIPT_URL), loadScript(GIS_SCRIPT_URL)]);
+      const { gapi, google } = window;
+      if (!gapi || !google) {
+        throw new Error('The Google API scripts loaded without defining gapi and google');
+      }
+
       await new Promise<void>((resolve, reject) => {
-        this.gapi.load('auth2:client', {
+        gapi.load('client', {
           callback: resolve,
           onerror: reject,
         });
       });
 
-      await this.gapi.client.init({
+      await gapi.client.init({
         apiKey: import.meta.env.VITE_GOOGLE_API_KEY,
-        clientId: import.meta.env.VITE_GOOGLE_CLIENT_ID,
         discoveryDocs: ['https://www.googleapis.com/discovery/v1/apis/drive/v3/rest'],
-        scope: 'https://www.googleapis.com/auth/drive.file',
+      });
+
+      this.gapi = gapi;
+      this.tokenClient = google.accounts.oauth2.initTokenClient({
+        client_id: import.meta.env.VITE_GOOGLE_CLIENT_ID || '',
+        scope: DRIVE_SCOPE,
+        // Replaced for every request in requestToken
+        callback: () => {},
       });
 
       this._isInitialized = true;
-      this._isAuthenticated = this.gapi.auth2.getAuthInstance().isSignedIn.get();
+      this.restoreToken();
     } catch (error) {
       console.error('Failed to initialize Google Drive API:', error);
       throw error;
     }
   }
 
+  // The Drive API client, loaded by initialize()
+  private get client(): GapiClient {
+    if (!this.gapi) {
+      throw new Error('Google Drive API is not initialized');
+    }
+    return this.gapi.client;
+  }
+
   isInitialized(): boolean {
     return this._isInitialized;
   }
 
   isAuthenticated(): boolean {
-    return this._isAuthenticated && this.gapi?.auth2?.getAuthInstance()?.isSignedIn?.get();
+    return this._isAuthenticated;
   }
 
   async authenticate(): Promise<void> {
@@ -86,75 +297,366 @@ class GoogleDriveService {
       await this.initialize();
     }
 
-    const authInstance = this.gapi.auth2.getAuthInstance();
-    
-    if (!authInstance.isSignedIn.get()) {
-      await authInstance.signIn();
-    }
-    
-    this._isAuthenticated = authInstance.isSignedIn.get();
+    // Must run straight from the click handler, or the browser blocks the consent popup
+    await this.requestToken('consent');
+    this._isAuthenticated = true;
   }
 
-  async uploadFile(file: File): Promise<GoogleDriveFile> {
+  // Upload a PDF with a resumable upload session, in chunks. Dropped connections and Drive server errors
+  // are retried by asking Drive how much it received and continuing from there.
+  async uploadFile(file: File, { folderId, signal, onProgress }: UploadOptions = {}): Promise<GoogleDriveFile> {
     if (!this._isAuthenticated) {
       throw new Error('Not authenticated with Google Drive');
     }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      throw new FileTooLargeError(file);
+    }
+
+    const sessionUrl = await this.startUploadSession(file, folderId || await this.getAppFolderId(), signal);
+    const report = (uploadedBytes: number, resuming = false) =>
+      onProgress?.({ uploadedBytes, totalBytes: file.size, resuming });
+
+    let offset = 0;
+    let failedAttempts = 0;
+    // After a failure, an empty PUT asks Drive which bytes it already has before sending more
+    let checkStatus = false;
+    report(0);
+
+    while (true) {
+      const end = Math.min(offset + UPLOAD_CHUNK_BYTES, file.size);
+      const { accessToken } = await this.getValidToken();
+      const response = await sendUploadRequest(
+        sessionUrl,
+        {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Range': checkStatus || file.size === 0 ? `bytes */${file.size}` : `bytes ${offset}-${end - 1}/${file.size}`,
+        },
+        checkStatus ? null : file.slice(offset, end),
+        signal,
+        loadedBytes => report(offset + loadedBytes)
+      );
+
+      if (response.status === 200 || response.status === 201) {
+        report(file.size);
+        return JSON.parse(response.body);
+      }
+      if (response.status === 308) {
+        offset = nextUploadOffset(response.range);
+        failedAttempts = 0;
+        checkStatus = false;
+        report(offset);
+        continue;
+      }
+      if (response.status === 404 || response.status === 410) {
+        throw new Error('The upload session expired. Please upload the file again.');
+      }
 
+      const transient = response.status === 0 || response.status === 401 || response.status === 429 || response.status >= 500;
+      if (!transient || ++failedAttempts > MAX_UPLOAD_RESUME_ATTEMPTS) {
+        throw new Error(response.status === 0
+          ? 'Upload failed: the connection to Google Drive was lost.'
+          : `Upload failed: HTTP ${response.status}`);
+      }
+      if (response.status === 401) {
+        this.clearToken();
+      }
+
+      const backoffMs = 1000 * 2 ** (failedAttempts - 1);
+      console.warn(`Upload of ${file.name} interrupted (${response.status || 'network error'}), resuming in ${backoffMs}ms`);
+      report(offset, true);
+      await sleep(backoffMs, signal);
+      checkStatus = true;
+    }
+  }
+
+  // Create a resumable upload session for the file and return its session URL
+  private async startUploadSession(file: File, folderId: string, signal?: AbortSignal): Promise<string> {
     const metadata = {
       name: file.name,
-      parents: [], // Upload to root folder
+      parents: [folderId],
     };
 
-    const form = new FormData();
-    form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
-    form.append('file', file);
+    return this.withAuthRetry(async accessToken => {
+      const response = await fetch(`https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable&fields=${FILE_FIELDS}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json; charset=UTF-8',
+          'X-Upload-Content-Type': file.type || 'application/pdf',
+          'X-Upload-Content-Length': String(file.size),
+        },
+        body: JSON.stringify(metadata),
+        signal,
+      });
 
-    const response = await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.gapi.auth2.getAuthInstance().currentUser.get().getAuthResponse().access_token}`,
-      },
-      body: form,
+      const sessionUrl = response.headers.get('Location');
+      if (!response.ok || !sessionUrl) {
+        throw Object.assign(new Error(`Upload failed: ${response.statusText || `HTTP ${response.status}`}`), { status: response.status });
+      }
+      return sessionUrl;
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Upload failed: ${response.statusText}`);
+  // One page of PDFs in the app folder tree matching the query, newest first (by relevance for full-text
+  // searches, which Drive can't sort). Pass the returned nextPageToken to get the following page.
+  async listDocuments(query: DocumentQuery = {}, pageToken?: string): Promise<DocumentPage> {
+    if (!this._isAuthenticated) {
+      throw new Error('Not authenticated with Google Drive');
     }
 
-    const result = await response.json();
-    
-    // Get additional file metadata
-    const fileResponse = await this.gapi.client.drive.files.get({
-      fileId: result.id,
-      fields: 'id,name,mimeType,size,createdTime,webViewLink,webContentLink',
-    });
+    const folderIds = query.folderId
+      ? [query.folderId]
+      : query.folderIds || [await this.getAppFolderId(), ...(await this.listFolders()).map(folder => folder.id)];
+    const conditions = [
+      "mimeType='application/pdf'",
+      'trashed=false',
+      `(${folderIds.map(id => `${quoteQueryValue(id)} in parents`).join(' or ')})`,
+    ];
 
-    return fileResponse.result;
+    const text = query.text?.trim();
+    const isFullText = !!text && query.searchIn === 'fullText';
+    if (text) {
+      conditions.push(`${isFullText ? 'fullText' : 'name'} contains ${quoteQueryValue(text)}`);
+    }
+    // Dates are whole local days, so the end of the range is the start of the following day
+    if (query.createdFrom) {
+      conditions.push(`createdTime >= '${new Date(`${query.createdFrom}T00:00:00`).toISOString()}'`);
+    }
+    if (query.createdTo) {
+      const dayAfter = new Date(`${query.createdTo}T00:00:00`);
+      dayAfter.setDate(dayAfter.getDate() + 1);
+      conditions.push(`createdTime < '${dayAfter.toISOString()}'`);
+    }
+
+    const response = await this.withAuthRetry<{ result: { files?: GoogleDriveFile[]; nextPageToken?: string } }>(() =>
+      this.client.drive.files.list({
+        q: conditions.join(' and '),
+        fields: `nextPageToken,files(${FILE_FIELDS})`,
+        orderBy: isFullText ? undefined : 'createdTime desc',
+        pageSize: DOCUMENT_PAGE_SIZE,
+        pageToken,
+      })
+    );
+
+    return { files: response.result.files || [], nextPageToken: response.result.nextPageToken };
+  }
+
+  // Id of the app folder in My Drive, created on first use
+  getAppFolderId(): Promise<string> {
+    const name = settingsService.getSettings().driveFolderName.trim() || settingsService.getDefaults().driveFolderName;
+    let folderId = this.appFolderIds.get(name);
+    if (!folderId) {
+      folderId = this.findOrCreateFolder(name, 'root');
+      this.appFolderIds.set(name, folderId);
+      // Don't cache failures, so the next call tries again
+      folderId.catch(() => this.appFolderIds.delete(name));
+    }
+    return folderId;
   }
 
-  async listDocuments(): Promise<GoogleDriveFile[]> {
+  // Engagement folders inside the app folder, by name
+  async listFolders(): Promise<DriveFolder[]> {
     if (!this._isAuthenticated) {
       throw new Error('Not authenticated with Google Drive');
     }
 
-    const response = await this.gapi.client.drive.files.list({
-      q: "mimeType='application/pdf'",
-      fields: 'files(id,name,mimeType,size,createdTime,webViewLink,webContentLink)',
-      orderBy: 'createdTime desc',
-    });
+    const appFolderId = await this.getAppFolderId();
+    const response = await this.withAuthRetry<{ result: { files?: DriveFolder[] } }>(() =>
+      this.client.drive.files.list({
+        q: `mimeType='${FOLDER_MIME_TYPE}' and trashed=false and ${quoteQueryValue(appFolderId)} in parents`,
+        fields: 'files(id,name,createdTime)',
+        orderBy: 'name',
+        pageSize: 1000,
+      })
+    );
 
     return response.result.files || [];
   }
 
+  // Engagement folder with the given name, reusing an existing one
+  async createFolder(name: string): Promise<DriveFolder> {
+    if (!this._isAuthenticated) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const appFolderId = await this.getAppFolderId();
+    const existing = await this.findFolder(name.trim(), appFolderId);
+    return existing || this.insertFolder(name.trim(), appFolderId);
+  }
+
+  private async findOrCreateFolder(name: string, parentId: string): Promise<string> {
+    const existing = await this.findFolder(name, parentId);
+    return existing ? existing.id : (await this.insertFolder(name, parentId)).id;
+  }
+
+  private async findFolder(name: string, parentId: string): Promise<DriveFolder | null> {
+    const response = await this.withAuthRetry<{ result: { files?: DriveFolder[] } }>(() =>
+      this.client.drive.files.list({
+        q: `mimeType='${FOLDER_MIME_TYPE}' and trashed=false and name=${quoteQueryValue(name)} and ${quoteQueryValue(parentId)} in parents`,
+        fields: 'files(id,name,createdTime)',
+        orderBy: 'createdTime',
+        pageSize: 1,
+      })
+    );
+    return response.result.files?.[0] || null;
+  }
+
+  private async insertFolder(name: string, parentId: string): Promise<DriveFolder> {
+    console.log(`Creating Drive folder "${name}"`);
+    const response = await this.withAuthRetry<{ result: DriveFolder }>(() =>
+      this.client.drive.files.create({
+        resource: { name, mimeType: FOLDER_MIME_TYPE, parents: [parentId] },
+        fields: 'id,name,createdTime',
+      })
+    );
+    return response.result;
+  }
+
+  // PDFs uploaded by earlier versions of the app, which put them in the root of My Drive. The drive.file
+  // scope only shows files this app created or opened, so these are the app's own uploads.
+  async listRootUploads(): Promise<GoogleDriveFile[]> {
+    if (!this._isAuthenticated) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const response = await this.withAuthRetry<{ result: { files?: GoogleDriveFile[] } }>(() =>
+      this.client.drive.files.list({
+        q: "mimeType='application/pdf' and trashed=false and 'root' in parents",
+        fields: `files(${FILE_FIELDS})`,
+        pageSize: 1000,
+      })
+    );
+    return response.result.files || [];
+  }
+
+  // Move a file into a folder, out of the folders it is in now
+  async moveFile(file: GoogleDriveFile, folderId: string): Promise<GoogleDriveFile> {
+    if (!this._isAuthenticated) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const response = await this.withAuthRetry<{ result: GoogleDriveFile }>(() =>
+      this.client.drive.files.update({
+        fileId: file.id,
+        addParents: folderId,
+        removeParents: (file.parents || []).join(','),
+        fields: FILE_FIELDS,
+      })
+    );
+    return response.result;
+  }
+
+  // Current metadata of a single file
+  async getFile(fileId: string): Promise<GoogleDriveFile> {
+    if (!this._isAuthenticated) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const response = await this.withAuthRetry<{ result: GoogleDriveFile }>(() =>
+      this.client.drive.files.get({ fileId, fields: FILE_FIELDS })
+    );
+    return response.result;
+  }
+
   async deleteFile(fileId: string): Promise<void> {
     if (!this._isAuthenticated) {
       throw new Error('Not authenticated with Google Drive');
     }
 
-    await this.gapi.client.drive.files.delete({
-      fileId: fileId,
+    await this.withAuthRetry(() =>
+      this.client.drive.files.delete({
+        fileId: fileId,
+      })
+    );
+  }
+
+  // Run a Drive request with a valid access token. A 401 means the token was revoked or expired
+  // early, so the token is refreshed and the request retried once before the error is passed on.
+  private async withAuthRetry<T>(request: (accessToken: string) => Promise<T>): Promise<T> {
+    const { accessToken } = await this.getValidToken();
+    try {
+      return await request(accessToken);
+    } catch (error) {
+      if (!isUnauthorized(error)) throw error;
+
+      console.warn('Google Drive rejected the access token, refreshing it and retrying once');
+      this.clearToken();
+      const refreshed = await this.getValidToken();
+      return request(refreshed.accessToken);
+    }
+  }
+
+  // The current token, silently refreshed when it is missing or about to expire
+  private async getValidToken(): Promise<StoredToken> {
+    if (this.token && this.token.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return this.token;
+    }
+
+    try {
+      // An empty prompt reuses the existing consent, so no dialog is shown
+      return await this.requestToken('');
+    } catch (error) {
+      this._isAuthenticated = false;
+      throw new Error(`Your Google Drive session has expired. Please sign in again. (${error instanceof Error ? error.message : error})`);
+    }
+  }
+
+  private requestToken(prompt: '' | 'consent'): Promise<StoredToken> {
+    if (this.pendingTokenRequest) return this.pendingTokenRequest;
+
+    const tokenClient = this.tokenClient;
+    if (!tokenClient) {
+      return Promise.reject(new Error('Google Drive API is not initialized'));
+    }
+
+    this.pendingTokenRequest = new Promise<StoredToken>((resolve, reject) => {
+      tokenClient.callback = response => {
+        if (response.error) {
+          reject(new Error(response.error_description || response.error));
+          return;
+        }
+        resolve(this.storeToken(response));
+      };
+      tokenClient.error_callback = error => {
+        reject(new Error(error.message || `Google sign-in failed: ${error.type}`));
+      };
+      tokenClient.requestAccessToken({ prompt });
+    }).finally(() => {
+      this.pendingTokenRequest = null;
     });
+
+    return this.pendingTokenRequest;
+  }
+
+  private storeToken(response: TokenResponse): StoredToken {
+    this.token = {
+      accessToken: response.access_token,
+      expiresAt: Date.now() + response.expires_in * 1000,
+    };
+    this.client.setToken({ access_token: response.access_token });
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(this.token));
+    return this.token;
+  }
+
+  private restoreToken() {
+    try {
+      const stored = sessionStorage.getItem(TOKEN_STORAGE_KEY);
+      const token: StoredToken | null = stored ? JSON.parse(stored) : null;
+      if (token && token.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+        this.token = token;
+        this.client.setToken({ access_token: token.accessToken });
+        this._isAuthenticated = true;
+      }
+    } catch (error) {
+      console.warn('Failed to restore the Google Drive session:', error);
+    }
+  }
+
+  private clearToken() {
+    this.token = null;
+    this.client.setToken(null);
+    sessionStorage.removeItem(TOKEN_STORAGE_KEY);
   }
 }
 
-export const googleDriveService = new GoogleDriveService();
\ No newline at end of file
+export const googleDriveService = new GoogleDriveService();
@@ -1,3 +1,5 @@
+import { KnowledgeGraphData } from '../types';
+
 interface GoogleKGEntity {
   '@id': string;
   '@type': string[];
@@ -17,42 +19,6 @@ interface GoogleKGResponse {
   itemListElement: GoogleKGEntity[];
 }
 
-interface KnowledgeGraphData {
-  graph: {
-    nodes: Array<{
-      id: string;
-      label: string;
-      size: number;
-      color: string;
-      cluster: number;
-      type: string;
-      description?: string;
-      score: number;
-    }>;
-    edges: Array<{
-      source: string;
-      target: string;
-      weight: number;
-      relationship: string;
-    }>;
-  };
-  insights: {
-    gaps: string[];
-    questions: string[];
-    clusters: Array<{
-      id: number;
-      label: string;
-      concepts: string[];
-    }>;
-  };
-  summary?: string;
-  metadata: {
-    entityCount: number;
-    timestamp: string;
-    source: 'google-kg';
-  };
-}
-
 class GoogleKnowledgeGraphService {
   private apiKey: string;
   private baseUrl: string = 'https://kgsearch.googleapis.com/v1/entities:search';
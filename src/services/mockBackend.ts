@@ -0,0 +1,71 @@
+import { ChatSource } from '../types';
+import { QABackend, QARequest, QARequestHandlers, QAResponse } from './qaBackend';
+
+const TOKEN_DELAY_MS = 20;
+
+// Small stable string hash so the same question always produces the same answer
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('The request was cancelled', 'AbortError');
+  }
+};
+
+// Offline backend returning canned, deterministic answers. Useful for demos and for exercising the UI
+// (streaming, sources, multi-document answers) without a workflow or model behind it.
+class MockBackend implements QABackend {
+  readonly id = 'mock' as const;
+  readonly label = 'Mock (demo) backend';
+
+  async ask(request: QARequest, handlers: QARequestHandlers = {}): Promise<QAResponse> {
+    const { question, documents, history } = request;
+    const seed = hashString(question.trim().toLowerCase());
+
+    const sources: ChatSource[] = documents.map((doc, index) => ({
+      documentId: doc.id,
+      pageNumber: ((seed + index * 7) % 20) + 1,
+      snippet: `Illustrative passage from ${doc.name} relevant to "${question.trim()}".`,
+    }));
+
+    const answer = [
+      `**Mock answer** to: _${question.trim()}_`,
+      '',
+      ...documents.map((doc, index) => `- ${doc.name} addresses this on page ${sources[index].pageNumber} [${index + 1}].`),
+      '',
+      history.length > 0
+        ? `This follows on from ${history.length} earlier message${history.length === 1 ? '' : 's'} in the conversation.`
+        : 'This is the first question in the conversation.',
+    ].join('\n');
+
+    // Stream the answer word by word, like a real backend would
+    if (handlers.onToken) {
+      const words = answer.split(/(\s+)/);
+      let partial = '';
+      for (const word of words) {
+        throwIfAborted(handlers.signal);
+        partial += word;
+        handlers.onToken(partial);
+        await delay(TOKEN_DELAY_MS);
+      }
+    }
+
+    throwIfAborted(handlers.signal);
+    return {
+      answer,
+      sources,
+      documentIds: documents.map(doc => doc.id),
+      responseBytes: new TextEncoder().encode(answer).length,
+    };
+  }
+}
+
+export const mockBackend = new MockBackend();
@@ -0,0 +1,234 @@
+import { ChatSource, Document } from '../types';
+import { QABackend, QARequest, QARequestHandlers, QAResponse } from './qaBackend';
+import { extractStreamToken, getStreamFormat, readResponseStream } from './responseStream';
+import { fetchWithRetry, HttpStatusError } from './fetchWithRetry';
+import { settingsService } from './settingsService';
+import { buildWebhookAuthHeaders } from './webhookSigning';
+import {
+  isWorkflowResponsePayload,
+  validateWorkflowResponse,
+  WorkflowResponse,
+  WorkflowResponseValidationError,
+  WorkflowSource,
+} from './workflowResponseSchema';
+
+// Turn validated workflow sources into chat sources. A source without a documentId refers to the
+// only asked document; with several documents asked such sources can't be attributed and are dropped.
+const toChatSources = (sources: WorkflowSource[] | undefined, askedDocumentIds: string[]): ChatSource[] | undefined => {
+  if (!sources) return undefined;
+
+  const chatSources = sources
+    .map(source => ({
+      documentId: source.documentId ?? (askedDocumentIds.length === 1 ? askedDocumentIds[0] : ''),
+      pageNumber: source.pageNumber,
+      snippet: source.snippet?.trim() || undefined,
+    }))
+    .filter(source => {
+      if (!source.documentId) {
+        console.warn('Dropping workflow source without a documentId:', source);
+      }
+      return !!source.documentId;
+    });
+
+  return chatSources.length > 0 ? chatSources : undefined;
+};
+
+// Shape a document the way the n8n workflow expects it
+const toWorkflowDocument = (document: Document) => ({
+  id: document.id,
+  name: document.name,
+  type: document.type,
+  size: document.size,
+  driveFileId: document.driveFileId,
+  webViewLink: document.webViewLink,
+  webContentLink: document.webContentLink,
+  shareableLink: document.shareableLink, // Direct download link for n8n
+  uploadedAt: document.uploadedAt,
+  metadata: document.metadata,
+});
+
+class N8nBackend implements QABackend {
+  readonly id = 'n8n' as const;
+  readonly label = 'n8n webhook';
+
+  async ask(request: QARequest, handlers: QARequestHandlers = {}): Promise<QAResponse> {
+    const { body: webhookResponse, httpStatus, responseBytes } = await this.sendToN8nWorkflow(request, handlers);
+
+    let response: WorkflowResponse;
+    try {
+      response = validateWorkflowResponse(webhookResponse);
+    } catch (error) {
+      if (error instanceof WorkflowResponseValidationError) {
+        console.error('N8n workflow response failed schema validation:', error.issues, error.response);
+      }
+      throw error;
+    }
+    if (response.warnings.length > 0) {
+      console.warn('Ignored invalid fields in the n8n workflow response:', response.warnings);
+    }
+
+    return {
+      answer: response.answer,
+      sources: toChatSources(response.sources, request.documents.map(doc => doc.id)),
+      documentIds: response.documentIds,
+      followUpQuestions: response.followUpQuestions,
+      knowledgeGraph: response.knowledgeGraph,
+      raw: webhookResponse,
+      httpStatus,
+      responseBytes,
+      tokenUsage: response.usage,
+      warnings: response.warnings.length > 0 ? response.warnings : undefined,
+    };
+  }
+
+  // Send question and document metadata to n8n workflow.
+  // `document` holds the primary document for workflows that only handle one; `documents` holds every selected document.
+  // `intent` describes slash commands (e.g. { type: 'summarize' }) and is null for free-text questions.
+  // Streamed responses (NDJSON or SSE) report the growing answer through onToken;
+  // single-shot JSON and plain-text responses are returned as before.
+  // Resolves with the (unvalidated) response body along with the HTTP status and size for diagnostics.
+  private async sendToN8nWorkflow(
+    { question, documents, history, intent }: QARequest,
+    { onToken, signal }: QARequestHandlers
+  ): Promise<{ body: unknown; httpStatus: number; responseBytes: number }> {
+    const settings = settingsService.getSettings();
+    const { n8nWebhookUrl, requestTimeoutSeconds, maxRetries } = settings;
+    const N8N_WEBHOOK_URL = n8nWebhookUrl.trim();
+    if (!N8N_WEBHOOK_URL) {
+      throw new Error('No n8n webhook URL configured. Add one on the Settings page or set VITE_N8N_WEBHOOK_URL.');
+    }
+  
+    console.log('Using webhook URL:', N8N_WEBHOOK_URL);
+  
+    const payload = {
+      question,
+      document: toWorkflowDocument(documents[0]),
+      documents: documents.map(toWorkflowDocument),
+      history,
+      intent: intent || null,
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      console.log('Sending payload to n8n:', JSON.stringify(payload, null, 2));
+
+      // The signature covers the exact bytes sent, so serialise once
+      const body = JSON.stringify(payload);
+      const response = await fetchWithRetry(N8N_WEBHOOK_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/x-ndjson, text/event-stream, application/json;q=0.9, text/plain;q=0.8',
+          ...(await buildWebhookAuthHeaders(body, settings)),
+        },
+        body,
+      }, {
+        signal,
+        timeoutMs: requestTimeoutSeconds * 1000,
+        maxRetries,
+        // Workflows can skip a retried request they already ran by remembering this key
+        idempotencyKey: crypto.randomUUID(),
+      });
+
+      console.log('N8n response status:', response.status);
+      console.log('N8n response headers:', Object.fromEntries(response.headers.entries()));
+    
+      if (response.status === 401 || response.status === 403) {
+        throw new HttpStatusError(response.status, `N8n webhook rejected the request (${response.status}). Check the webhook authentication and signing secret on the Settings page.`);
+      }
+
+      if (!response.ok) {
+        let errorText = '';
+        try {
+          errorText = await response.text();
+        } catch (e) {
+          console.error('Could not read error response:', e);
+        }
+        console.error('N8n error response:', errorText);
+        throw new HttpStatusError(response.status, `N8n webhook error (${response.status}): ${errorText || 'Unknown error'}`);
+      }
+
+      const streamFormat = getStreamFormat(response);
+      if (streamFormat) {
+        console.log(`N8n response is streamed (${streamFormat})`);
+        let streamedAnswer = '';
+        let finalResponse: Record<string, unknown> | null = null;
+
+        const responseBytes = await readResponseStream(response, streamFormat, event => {
+          const token = extractStreamToken(event);
+          if (token) {
+            streamedAnswer += token;
+            onToken?.(streamedAnswer);
+            return;
+          }
+
+          // Structured events (answer, sources, follow-ups...) are merged into the final response
+          if (isWorkflowResponsePayload(event)) {
+            finalResponse = { ...(finalResponse || {}), ...event };
+          }
+        });
+
+        if (!finalResponse && !streamedAnswer.trim()) {
+          throw new Error('N8n webhook returned empty response. Please check if your n8n workflow is active and properly configured to return a response.');
+        }
+        // The streamed tokens are the answer unless a structured event supplied one
+        const structured: Record<string, unknown> = finalResponse || {};
+        const hasAnswer = ['answer', 'output', 'response'].some(field => structured[field] !== undefined);
+        return {
+          body: hasAnswer ? structured : { ...structured, answer: streamedAnswer },
+          httpStatus: response.status,
+          responseBytes,
+        };
+      }
+
+      let responseText = '';
+      try {
+        responseText = await response.text();
+        console.log('N8n raw response:', responseText);
+      } catch (e) {
+        console.error('Could not read response text:', e);
+        throw new Error('Failed to read response from n8n webhook');
+      }
+    
+      if (!responseText.trim()) {
+        throw new Error('N8n webhook returned empty response. Please check if your n8n workflow is active and properly configured to return a response.');
+      }
+      const responseBytes = new TextEncoder().encode(responseText).length;
+    
+      let data;
+      try {
+        data = JSON.parse(responseText);
+        console.log('N8n parsed response:', data);
+      } catch (parseError) {
+        console.error('Failed to parse n8n response as JSON:', parseError);
+        console.log('Treating response as plain text since JSON parsing failed');
+        // If it's not JSON, treat the response as plain text (but only if it's not empty)
+        if (responseText.trim()) {
+          return { body: responseText.trim(), httpStatus: response.status, responseBytes };
+        } else {
+          throw new Error('N8n webhook returned empty or invalid response');
+        }
+      }
+    
+      // Return the entire response object so we can extract both text and knowledge graph data
+      return { body: data, httpStatus: response.status, responseBytes };
+    
+    } catch (error) {
+      console.error('Error calling n8n workflow:', error);
+    
+      if (error instanceof TypeError && error.message.includes('fetch')) {
+        throw new Error('Unable to connect to n8n webhook. Please check if the webhook URL is correct and accessible.');
+      }
+    
+      if (error instanceof Error && !(error instanceof HttpStatusError)
+        && (error.message.includes('JSON') || error.message.includes('empty response'))) {
+        throw new Error('N8n webhook issue: The workflow may be inactive, not properly configured, or returning invalid data. Please check your n8n workflow.');
+      }
+    
+      // Re-throw the error with the original message if it's already descriptive
+      throw error;
+    }
+  }
+}
+
+export const n8nBackend = new N8nBackend();
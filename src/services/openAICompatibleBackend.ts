@@ -0,0 +1,119 @@
+import { Document, TokenUsage } from '../types';
+import { QABackend, QARequest, QARequestHandlers, QAResponse } from './qaBackend';
+import { extractStreamToken, getStreamFormat, readResponseStream } from './responseStream';
+import { settingsService } from './settingsService';
+import { fetchWithRetry, HttpStatusError, isAbortError, RequestTimeoutError } from './fetchWithRetry';
+
+// Describe the selected documents to the model, which only sees their metadata and links
+const buildSystemPrompt = (documents: Document[]): string => {
+  const documentList = documents
+    .map(doc => `- ${doc.name} (id: ${doc.id}, link: ${doc.webViewLink || doc.shareableLink})`)
+    .join('\n');
+
+  return [
+    'You are a document analysis assistant for internal engagement documents.',
+    'Answer the user\'s question about the following PDF documents. If you cannot find the answer in them, say so.',
+    'Format your answer in Markdown.',
+    '',
+    'Documents:',
+    documentList,
+  ].join('\n');
+};
+
+// Token counts from an OpenAI `usage` object, present on non-streamed completions and on the last
+// streamed chunk of servers that report it
+const extractUsage = (event: unknown): TokenUsage | undefined => {
+  const usage = (event as { usage?: Record<string, unknown> } | null)?.usage;
+  if (!usage || typeof usage !== 'object') return undefined;
+
+  const count = (value: unknown) => (typeof value === 'number' ? value : undefined);
+  return {
+    promptTokens: count(usage.prompt_tokens),
+    completionTokens: count(usage.completion_tokens),
+    totalTokens: count(usage.total_tokens),
+  };
+};
+
+// Talks to any server implementing the OpenAI chat completions API (OpenAI, Azure proxies, Ollama, LM Studio, vLLM...)
+class OpenAICompatibleBackend implements QABackend {
+  readonly id = 'openai' as const;
+  readonly label = 'OpenAI-compatible API';
+
+  async ask(request: QARequest, handlers: QARequestHandlers = {}): Promise<QAResponse> {
+    const { openAIBaseUrl, openAIApiKey, openAIModel, requestTimeoutSeconds, maxRetries } = settingsService.getSettings();
+    if (!openAIBaseUrl.trim()) {
+      throw new Error('No OpenAI-compatible base URL configured. Add one on the Settings page.');
+    }
+
+    const url = `${openAIBaseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (openAIApiKey.trim()) {
+      headers.Authorization = `Bearer ${openAIApiKey.trim()}`;
+    }
+
+    const body = {
+      model: openAIModel,
+      stream: true,
+      messages: [
+        { role: 'system', content: buildSystemPrompt(request.documents) },
+        ...request.history.map(message => ({ role: message.role, content: message.content })),
+        { role: 'user', content: request.question },
+      ],
+    };
+
+    let response: Response;
+    try {
+      response = await fetchWithRetry(
+        url,
+        { method: 'POST', headers, body: JSON.stringify(body) },
+        // Chat completions have no side effects, so a retry at worst repeats the completion
+        { signal: handlers.signal, timeoutMs: requestTimeoutSeconds * 1000, maxRetries, idempotent: true }
+      );
+    } catch (error) {
+      if (isAbortError(error) || error instanceof RequestTimeoutError) throw error;
+      console.error('Error calling OpenAI-compatible endpoint:', error);
+      throw new Error(`Unable to connect to ${url}. Please check that the server is running and allows browser requests (CORS).`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new HttpStatusError(response.status, `OpenAI-compatible API error (${response.status}): ${errorText || response.statusText || 'Unknown error'}`);
+    }
+
+    // Servers that ignore `stream: true` return a single completion
+    const streamFormat = getStreamFormat(response);
+    if (!streamFormat) {
+      const responseText = await response.text();
+      const data = JSON.parse(responseText);
+      const answer = data?.choices?.[0]?.message?.content;
+      if (typeof answer !== 'string' || !answer.trim()) {
+        throw new Error('OpenAI-compatible API returned no answer');
+      }
+      return {
+        answer,
+        raw: data,
+        httpStatus: response.status,
+        responseBytes: new TextEncoder().encode(responseText).length,
+        tokenUsage: extractUsage(data),
+      };
+    }
+
+    let answer = '';
+    let tokenUsage: TokenUsage | undefined;
+    const responseBytes = await readResponseStream(response, streamFormat, event => {
+      tokenUsage = extractUsage(event) || tokenUsage;
+      const delta = extractStreamToken(event);
+      if (delta) {
+        answer += delta;
+        handlers.onToken?.(answer);
+      }
+    });
+
+    if (!answer.trim()) {
+      throw new Error('OpenAI-compatible API returned an empty answer');
+    }
+    return { answer, httpStatus: response.status, responseBytes, tokenUsage };
+  }
+}
+
+export const openAICompatibleBackend = new OpenAICompatibleBackend();
@@ -0,0 +1,150 @@
+// Saved question templates, persisted in localStorage and shareable as a JSON file
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // Question text; may contain variables such as {{documentName}}
+  body: string;
+  updatedAt: string;
+}
+
+// Values substituted into a template when it is used
+export interface PromptTemplateVariables {
+  documentName: string;
+  documentNames: string;
+  date: string;
+}
+
+export const PROMPT_TEMPLATE_VARIABLES: Array<{ name: keyof PromptTemplateVariables; description: string }> = [
+  { name: 'documentName', description: 'Name of the primary selected document' },
+  { name: 'documentNames', description: 'Names of all selected documents' },
+  { name: 'date', description: "Today's date" },
+];
+
+const STORAGE_KEY = 'dtt-document-qa.promptTemplates';
+const EXPORT_VERSION = 1;
+
+const DEFAULT_TEMPLATES: Array<Pick<PromptTemplate, 'name' | 'body'>> = [
+  { name: 'Termination clauses', body: 'List all termination clauses in {{documentName}}, with the notice period and the party entitled to terminate.' },
+  { name: 'Obligations by party', body: 'Summarise the obligations in {{documentName}}, grouped by party.' },
+  { name: 'Key dates', body: 'List every deadline, effective date and renewal date mentioned in {{documentNames}}.' },
+];
+
+export class PromptTemplateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateImportError';
+  }
+}
+
+const isTemplateLike = (value: unknown): value is Pick<PromptTemplate, 'name' | 'body'> & Partial<PromptTemplate> =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as PromptTemplate).name === 'string' &&
+  typeof (value as PromptTemplate).body === 'string' &&
+  !!(value as PromptTemplate).name.trim() &&
+  !!(value as PromptTemplate).body.trim();
+
+class PromptTemplateService {
+  private templates: PromptTemplate[];
+
+  constructor() {
+    this.templates = this.load();
+  }
+
+  private load(): PromptTemplate[] {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      if (stored) {
+        // Stored data may have been edited by hand or written by another version, so check it like an import
+        const data: unknown = JSON.parse(stored);
+        if (!Array.isArray(data)) {
+          throw new Error('stored templates are not a list');
+        }
+        return data.filter(isTemplateLike).map(template => ({
+          id: typeof template.id === 'string' && template.id ? template.id : crypto.randomUUID(),
+          name: template.name.trim(),
+          body: template.body.trim(),
+          updatedAt: typeof template.updatedAt === 'string' ? template.updatedAt : new Date().toISOString(),
+        }));
+      }
+    } catch (error) {
+      console.warn('Failed to read stored prompt templates, using defaults:', error);
+    }
+
+    const now = new Date().toISOString();
+    return DEFAULT_TEMPLATES.map(template => ({ ...template, id: crypto.randomUUID(), updatedAt: now }));
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.templates));
+    } catch (error) {
+      console.error('Failed to persist prompt templates:', error);
+    }
+  }
+
+  listTemplates(): PromptTemplate[] {
+    return [...this.templates].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Create a template, or update it when an id is given
+  saveTemplate(template: Pick<PromptTemplate, 'name' | 'body'> & { id?: string }): PromptTemplate {
+    const saved: PromptTemplate = {
+      id: template.id || crypto.randomUUID(),
+      name: template.name.trim(),
+      body: template.body.trim(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.templates = [...this.templates.filter(t => t.id !== saved.id), saved];
+    this.persist();
+    return saved;
+  }
+
+  deleteTemplate(id: string): void {
+    this.templates = this.templates.filter(t => t.id !== id);
+    this.persist();
+  }
+
+  // Replace {{variable}} placeholders; unknown variables are left as they are
+  fillTemplate(body: string, variables: PromptTemplateVariables): string {
+    return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+      // Own properties only, so names like {{toString}} aren't filled from the object prototype
+      Object.prototype.hasOwnProperty.call(variables, name) ? variables[name as keyof PromptTemplateVariables] : placeholder
+    );
+  }
+
+  exportTemplates(): string {
+    return JSON.stringify({ version: EXPORT_VERSION, templates: this.listTemplates() }, null, 2);
+  }
+
+  // Merge templates from an exported file. Templates with the same name are overwritten.
+  // Returns the number of templates imported.
+  importTemplates(json: string): number {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new PromptTemplateImportError('The file is not valid JSON.');
+    }
+
+    const entries = Array.isArray(data) ? data : (data as { templates?: unknown })?.templates;
+    if (!Array.isArray(entries)) {
+      throw new PromptTemplateImportError('The file does not contain a list of templates.');
+    }
+
+    const imported = entries.filter(isTemplateLike);
+    if (imported.length === 0) {
+      throw new PromptTemplateImportError('No valid templates found. Each template needs a name and a body.');
+    }
+
+    imported.forEach(template => {
+      const existing = this.templates.find(t => t.name.trim().toLowerCase() === template.name.trim().toLowerCase());
+      this.saveTemplate({ id: existing?.id, name: template.name, body: template.body });
+    });
+    return imported.length;
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
@@ -0,0 +1,67 @@
+import { ChatIntent, ChatSource, Document, KnowledgeGraphData, TokenUsage } from '../types';
+import { settingsService, QABackendSetting } from './settingsService';
+import { n8nBackend } from './n8nBackend';
+import { openAICompatibleBackend } from './openAICompatibleBackend';
+import { mockBackend } from './mockBackend';
+
+export type QABackendId = QABackendSetting;
+
+export interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+}
+
+export interface QARequest {
+  question: string;
+  documents: Document[];
+  history: HistoryMessage[];
+  // Set when the question came from a slash command; `question` then holds a plain-language version
+  intent?: ChatIntent;
+}
+
+export interface QAResponse {
+  answer: string;
+  sources?: ChatSource[];
+  // Documents the backend reports having used; undefined when it doesn't say
+  documentIds?: string[];
+  followUpQuestions?: string[];
+  // Knowledge graph produced by the backend itself; when absent the answer is analysed locally
+  knowledgeGraph?: KnowledgeGraphData;
+  // The unprocessed backend response, kept for debugging
+  raw?: unknown;
+  // Transport details recorded on the answer's diagnostics
+  httpStatus?: number;
+  responseBytes?: number;
+  tokenUsage?: TokenUsage;
+  // Problems with the response that were worked around, e.g. invalid optional fields that were left out
+  warnings?: string[];
+}
+
+export interface QARequestHandlers {
+  // Called with the full answer so far each time a streamed chunk arrives
+  onToken?: (partialAnswer: string) => void;
+  // Aborting cancels the request; backends reject with an AbortError
+  signal?: AbortSignal;
+}
+
+// A question-answering backend: takes a question about one or more documents and returns an answer
+export interface QABackend {
+  id: QABackendId;
+  label: string;
+  ask(request: QARequest, handlers?: QARequestHandlers): Promise<QAResponse>;
+}
+
+const backends: Record<QABackendId, QABackend> = {
+  n8n: n8nBackend,
+  openai: openAICompatibleBackend,
+  mock: mockBackend,
+};
+
+export const getQABackends = (): QABackend[] => Object.values(backends);
+
+// The backend selected in settings, falling back to n8n for unknown ids
+export const getActiveQABackend = (): QABackend => {
+  const { qaBackend } = settingsService.getSettings();
+  return backends[qaBackend] || backends.n8n;
+};
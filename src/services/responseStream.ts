@@ -0,0 +1,98 @@
+// Helpers for reading streamed webhook responses (NDJSON or Server-Sent Events)
+
+export type StreamFormat = 'ndjson' | 'sse';
+
+// Work out whether a response is streamed, based on its Content-Type header
+export const getStreamFormat = (response: Response): StreamFormat | null => {
+  const contentType = (response.headers.get('content-type') || '').toLowerCase();
+
+  if (contentType.includes('text/event-stream')) return 'sse';
+  if (contentType.includes('application/x-ndjson') || contentType.includes('application/jsonl')) return 'ndjson';
+  return null;
+};
+
+// Pull the incremental answer text out of a single streamed event. Supports n8n's streaming items
+// ({ type: 'item', content }), { token } / { delta } / { text } chunks and OpenAI chat completion chunks.
+export const extractStreamToken = (event: unknown): string => {
+  if (typeof event === 'string') return event;
+  if (!event || typeof event !== 'object') return '';
+
+  const chunk = event as Record<string, unknown>;
+  if (Array.isArray(chunk.choices)) {
+    const content = (chunk.choices[0] as { delta?: { content?: unknown } } | undefined)?.delta?.content;
+    return typeof content === 'string' ? content : '';
+  }
+  if (chunk.type && chunk.type !== 'item' && chunk.type !== 'token') return '';
+
+  const token = chunk.token ?? chunk.delta ?? chunk.content ?? chunk.text;
+  return typeof token === 'string' ? token : '';
+};
+
+// Parse a single payload, falling back to the raw string when it isn't JSON
+const parsePayload = (payload: string): unknown => {
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return payload;
+  }
+};
+
+// Read a streamed body and call onEvent for every NDJSON line or SSE data event.
+// SSE streams may end with a "[DONE]" sentinel, which is not forwarded.
+// Resolves with the number of bytes read.
+export const readResponseStream = async (
+  response: Response,
+  format: StreamFormat,
+  onEvent: (event: unknown) => void
+): Promise<number> => {
+  if (!response.body) {
+    throw new Error('Streamed response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let sseData: string[] = [];
+  let bytesRead = 0;
+
+  const flushSseEvent = () => {
+    if (sseData.length === 0) return;
+    const payload = sseData.join('\n');
+    sseData = [];
+    if (payload.trim() !== '[DONE]') {
+      onEvent(parsePayload(payload));
+    }
+  };
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.replace(/\r$/, '');
+
+    if (format === 'ndjson') {
+      if (line.trim()) onEvent(parsePayload(line));
+      return;
+    }
+
+    // SSE: blank line terminates an event, "data:" lines accumulate, comments and other fields are ignored
+    if (line === '') {
+      flushSseEvent();
+    } else if (line.startsWith('data:')) {
+      sseData.push(line.slice(5).replace(/^ /, ''));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer);
+  if (format === 'sse') flushSseEvent();
+  return bytesRead;
+};
@@ -0,0 +1,102 @@
+// User-adjustable application settings, persisted in localStorage
+
+export type QABackendSetting = 'n8n' | 'openai' | 'mock';
+
+export type WebhookAuthType = 'none' | 'bearer' | 'header';
+
+export interface AppSettings {
+  // Which question-answering backend handles chat questions
+  qaBackend: QABackendSetting;
+  n8nWebhookUrl: string;
+  // How requests authenticate to the n8n webhook: a bearer token or a custom header (n8n "Header Auth")
+  n8nAuthType: WebhookAuthType;
+  n8nAuthHeaderName: string;
+  n8nAuthToken: string;
+  // Shared secret for the HMAC signature sent with every webhook request; signing is off when empty
+  n8nSigningSecret: string;
+  // Base URL of an OpenAI-compatible API, e.g. https://api.openai.com/v1 or a local server
+  openAIBaseUrl: string;
+  openAIApiKey: string;
+  openAIModel: string;
+  // Time to wait for a backend to start responding, and between chunks of a streamed response, before giving up
+  requestTimeoutSeconds: number;
+  // Retries for network errors and 5xx responses, with exponential backoff
+  maxRetries: number;
+  // How many earlier chat messages are sent along with a question (0 disables history)
+  historyMessageLimit: number;
+  // Upper bound on the combined length of the history messages, in characters
+  historyCharLimit: number;
+  // How many queued questions are sent to the backend at the same time
+  maxConcurrentQuestions: number;
+  // How long identical questions about unchanged documents are answered from the local cache (0 disables it)
+  answerCacheTtlMinutes: number;
+  // Endpoint receiving answer ratings; ratings are only kept locally when empty
+  feedbackWebhookUrl: string;
+  // Drive folder (in My Drive) holding the app's documents, with one subfolder per engagement
+  driveFolderName: string;
+}
+
+// Upper bound for maxConcurrentQuestions, to keep a queue of questions from flooding the backend
+export const MAX_CONCURRENT_QUESTIONS = 5;
+
+const STORAGE_KEY = 'dtt-document-qa.settings';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  qaBackend: 'n8n',
+  n8nWebhookUrl: import.meta.env.VITE_N8N_WEBHOOK_URL || '',
+  n8nAuthType: import.meta.env.VITE_N8N_AUTH_TOKEN ? 'bearer' : 'none',
+  n8nAuthHeaderName: 'X-API-Key',
+  n8nAuthToken: import.meta.env.VITE_N8N_AUTH_TOKEN || '',
+  n8nSigningSecret: import.meta.env.VITE_N8N_SIGNING_SECRET || '',
+  openAIBaseUrl: import.meta.env.VITE_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  openAIApiKey: import.meta.env.VITE_OPENAI_API_KEY || '',
+  openAIModel: import.meta.env.VITE_OPENAI_MODEL || 'llama3.1',
+  requestTimeoutSeconds: 120,
+  maxRetries: 2,
+  historyMessageLimit: 6,
+  historyCharLimit: 6000,
+  maxConcurrentQuestions: 1,
+  answerCacheTtlMinutes: 24 * 60,
+  feedbackWebhookUrl: import.meta.env.VITE_FEEDBACK_WEBHOOK_URL || '',
+  driveFolderName: 'DTT Q&A',
+};
+
+class SettingsService {
+  private settings: AppSettings;
+
+  constructor() {
+    this.settings = this.load();
+  }
+
+  private load(): AppSettings {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_SETTINGS };
+    } catch (error) {
+      console.warn('Failed to read stored settings, using defaults:', error);
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  getSettings(): AppSettings {
+    return this.settings;
+  }
+
+  getDefaults(): AppSettings {
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  updateSettings(changes: Partial<AppSettings>): AppSettings {
+    this.settings = { ...this.settings, ...changes };
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to persist settings:', error);
+    }
+
+    return this.settings;
+  }
+}
+
+export const settingsService = new SettingsService();
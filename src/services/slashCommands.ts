@@ -0,0 +1,146 @@
+import { ChatIntent, ChatIntentType, Document } from '../types';
+
+// Slash commands typed in the chat input. Each command becomes a structured intent that is sent to the
+// backend alongside a plain-language question, so workflows can branch on the intent and plain chat
+// models still get a sensible prompt.
+
+interface SlashCommand {
+  name: ChatIntentType;
+  usage: string;
+  description: string;
+  // The first argument names another document
+  takesDocument?: boolean;
+  buildQuestion: (instructions: string | undefined, documentNames: string, targetName?: string) => string;
+}
+
+export interface SlashCommandSuggestion {
+  // Input text after accepting the suggestion
+  value: string;
+  label: string;
+  description: string;
+}
+
+export class SlashCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SlashCommandError';
+  }
+}
+
+const withInstructions = (question: string, instructions?: string) =>
+  instructions ? `${question} ${instructions}` : question;
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'summarize',
+    usage: '/summarize [focus]',
+    description: 'Summarise the selected documents',
+    buildQuestion: (instructions, documentNames) =>
+      withInstructions(`Summarise ${documentNames}.`, instructions && `Focus on: ${instructions}`),
+  },
+  {
+    name: 'extract-table',
+    usage: '/extract-table [what to extract]',
+    description: 'Extract information into a Markdown table',
+    buildQuestion: (instructions, documentNames) =>
+      withInstructions(`Extract ${instructions || 'the key data'} from ${documentNames} and present it as a Markdown table.`),
+  },
+  {
+    name: 'timeline',
+    usage: '/timeline [topic]',
+    description: 'List dates and events in chronological order',
+    buildQuestion: (instructions, documentNames) =>
+      withInstructions(`Build a chronological timeline of the dates and events in ${documentNames}.`, instructions && `Only include events related to: ${instructions}`),
+  },
+  {
+    name: 'compare',
+    usage: '/compare <document> [aspect]',
+    description: 'Compare the selected documents with another document',
+    takesDocument: true,
+    buildQuestion: (instructions, documentNames, targetName) =>
+      withInstructions(`Compare ${documentNames} with ${targetName}, highlighting the differences.`, instructions && `Focus on: ${instructions}`),
+  },
+];
+
+const findCommand = (name: string) => SLASH_COMMANDS.find(command => command.name === name.toLowerCase());
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/\.pdf$/, '');
+
+// Match the start of `text` against document names, preferring the longest name.
+// Returns the document and whatever text follows its name.
+const matchDocumentPrefix = (text: string, documents: Document[]) => {
+  const lowerText = text.toLowerCase();
+  const candidates = documents
+    .flatMap(doc => [doc.name.toLowerCase(), normalizeName(doc.name)].map(name => ({ doc, name })))
+    .filter(({ name }) => lowerText === name || lowerText.startsWith(`${name} `))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  const match = candidates[0];
+  return match ? { document: match.doc, rest: text.slice(match.name.length).trim() } : null;
+};
+
+// Parse a chat input into a slash command intent. Returns null for ordinary questions and throws a
+// SlashCommandError for unknown commands or missing arguments.
+export const parseSlashCommand = (input: string, documents: Document[]): ChatIntent | null => {
+  const text = input.trim();
+  if (!text.startsWith('/')) return null;
+
+  const [, name = '', rest = ''] = text.match(/^\/(\S*)\s*([\s\S]*)$/) || [];
+  const command = findCommand(name);
+  if (!command) {
+    throw new SlashCommandError(`Unknown command "/${name}". Available commands: ${SLASH_COMMANDS.map(c => `/${c.name}`).join(', ')}`);
+  }
+
+  if (!command.takesDocument) {
+    return { type: command.name, instructions: rest.trim() || undefined };
+  }
+
+  if (!rest.trim()) {
+    throw new SlashCommandError(`Usage: ${command.usage}`);
+  }
+  const match = matchDocumentPrefix(rest.trim(), documents);
+  if (!match) {
+    throw new SlashCommandError(`No document named "${rest.trim()}". Pick one from the suggestions.`);
+  }
+  return { type: command.name, targetDocumentId: match.document.id, instructions: match.rest || undefined };
+};
+
+// Plain-language question sent along with the intent
+export const describeIntent = (intent: ChatIntent, askedDocuments: Document[]): string => {
+  const command = findCommand(intent.type);
+  const target = askedDocuments.find(doc => doc.id === intent.targetDocumentId);
+  const compared = askedDocuments.filter(doc => doc.id !== intent.targetDocumentId);
+  const documentNames = (intent.type === 'compare' ? compared : askedDocuments).map(doc => `"${doc.name}"`).join(', ');
+
+  return command
+    ? command.buildQuestion(intent.instructions, documentNames || 'the document', target ? `"${target.name}"` : 'the other document')
+    : intent.instructions || '';
+};
+
+// Autocomplete entries for the current input: command names while typing the command,
+// document names while typing the argument of /compare
+export const getSlashCommandSuggestions = (input: string, documents: Document[]): SlashCommandSuggestion[] => {
+  if (!input.startsWith('/')) return [];
+
+  const commandMatch = input.match(/^\/(\S*)$/);
+  if (commandMatch) {
+    const typed = commandMatch[1].toLowerCase();
+    return SLASH_COMMANDS
+      .filter(command => command.name.startsWith(typed))
+      .map(command => ({ value: `/${command.name} `, label: command.usage, description: command.description }));
+  }
+
+  const argumentMatch = input.match(/^\/(\S+)\s+([\s\S]*)$/);
+  const command = argumentMatch && findCommand(argumentMatch[1]);
+  if (!argumentMatch || !command?.takesDocument) return [];
+
+  // Stop suggesting once a document has been picked
+  const typed = argumentMatch[2];
+  if (/\s$/.test(typed) && matchDocumentPrefix(typed.trim(), documents)) return [];
+
+  const lowerTyped = typed.trim().toLowerCase();
+  return documents
+    .filter(doc => doc.name.toLowerCase().includes(lowerTyped))
+    .slice(0, 8)
+    .map(doc => ({ value: `/${command.name} ${doc.name} `, label: doc.name, description: 'Compare with this document' }));
+};
@@ -0,0 +1,52 @@
+// Authentication and HMAC signing of webhook requests. See docs/webhook-signing.md for how a
+// workflow verifies the signature.
+
+import { AppSettings } from './settingsService';
+
+export const SIGNATURE_HEADER = 'X-DTT-Signature';
+export const TIMESTAMP_HEADER = 'X-DTT-Timestamp';
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+// HMAC-SHA256 of `${timestamp}.${body}`, hex encoded. The timestamp (Unix seconds) is part of the signed
+// content so a captured request can't be replayed later with a fresh timestamp.
+export const signWebhookBody = async (body: string, secret: string, timestamp: number): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(signature);
+};
+
+// Auth and signature headers for a webhook request with the given body
+export const buildWebhookAuthHeaders = async (
+  body: string,
+  { n8nAuthType, n8nAuthHeaderName, n8nAuthToken, n8nSigningSecret }: AppSettings
+): Promise<Record<string, string>> => {
+  const headers: Record<string, string> = {};
+  // Pasted values often carry a trailing newline or space, which would change the token and the signature
+  const token = n8nAuthToken.trim();
+  const signingSecret = n8nSigningSecret.trim();
+
+  if (n8nAuthType === 'bearer' && token) {
+    headers.Authorization = `Bearer ${token}`;
+  } else if (n8nAuthType === 'header' && token && n8nAuthHeaderName.trim()) {
+    headers[n8nAuthHeaderName.trim()] = token;
+  }
+
+  if (signingSecret) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    headers[TIMESTAMP_HEADER] = String(timestamp);
+    headers[SIGNATURE_HEADER] = `sha256=${await signWebhookBody(body, signingSecret, timestamp)}`;
+  }
+
+  return headers;
+};
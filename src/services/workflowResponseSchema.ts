@@ -0,0 +1,394 @@
+// Versioned response contract for the n8n question-answering workflow, validated at runtime.
+//
+// Schema v1 (every field except `answer` is optional; a streamed response may deliver the answer as tokens instead):
+// {
+//   "schemaVersion": 1,
+//   "answer": "Markdown answer text",
+//   "sources": [{ "documentId": "drive-file-id", "pageNumber": 4, "snippet": "quoted text" }],
+//   "documentIds": ["drive-file-id"],
+//   "followUpQuestions": ["What about section 4?"],
+//   "graph": { "nodes": [...], "edges": [...] },
+//   "insights": { "gaps": [...], "questions": [...], "clusters": [...] },
+//   "summary": "Knowledge graph summary",
+//   "usage": { "promptTokens": 1200, "completionTokens": 350, "totalTokens": 1550 }
+// }
+//
+// When any of graph, insights or summary is present they are validated against the KnowledgeGraphData shape
+// (missing visual attributes such as node size and color get defaults) and replace the local text analysis.
+// A graph that fails validation or has no nodes is ignored, and the answer is analysed locally.
+//
+// Legacy responses without a schemaVersion may use `output` or `response` instead of `answer`,
+// and plain-text responses are treated as the answer. Sources may also use the older aliases
+// document_id / docId, page_number / page and quote / text, and give page numbers as numeric strings.
+//
+// Only a missing or unusable answer rejects a response. Problems with the optional fields (sources,
+// documentIds, followUpQuestions, the knowledge graph and usage) are returned as warnings, shown with the
+// answer's diagnostics, and the affected values are left out.
+//
+// `usage` reports LLM token counts for the diagnostics shown with each answer; OpenAI-style
+// snake_case keys (prompt_tokens, completion_tokens, total_tokens) are accepted too.
+
+import { KnowledgeGraphData, TokenUsage } from '../types';
+
+export const WORKFLOW_RESPONSE_SCHEMA_VERSION = 1;
+const SUPPORTED_SCHEMA_VERSIONS = [1];
+
+export interface WorkflowSource {
+  documentId?: string;
+  pageNumber?: number;
+  snippet?: string;
+}
+
+export interface WorkflowResponse {
+  schemaVersion: number;
+  answer: string;
+  sources?: WorkflowSource[];
+  documentIds?: string[];
+  followUpQuestions?: string[];
+  knowledgeGraph?: KnowledgeGraphData;
+  usage?: TokenUsage;
+  // Problems with optional fields that were left out of the response
+  warnings: string[];
+}
+
+type GraphNode = KnowledgeGraphData['graph']['nodes'][number];
+type GraphEdge = KnowledgeGraphData['graph']['edges'][number];
+
+const DEFAULT_NODE_COLOR = '#6B7280';
+const DEFAULT_NODE_SIZE = 10;
+
+// Fields that mark a streamed event as (part of) the structured response rather than a token
+const RESPONSE_FIELDS = [
+  'schemaVersion', 'answer', 'output', 'response', 'sources', 'documentIds',
+  'followUpQuestions', 'graph', 'insights', 'summary', 'usage',
+];
+
+export class WorkflowResponseValidationError extends Error {
+  readonly issues: string[];
+  readonly response: unknown;
+
+  constructor(issues: string[], response: unknown) {
+    super(
+      `The workflow response does not match schema v${WORKFLOW_RESPONSE_SCHEMA_VERSION}:\n` +
+      issues.map(issue => `• ${issue}`).join('\n')
+    );
+    this.name = 'WorkflowResponseValidationError';
+    this.issues = issues;
+    this.response = response;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+export const isWorkflowResponsePayload = (value: unknown): value is Record<string, unknown> =>
+  isPlainObject(value) && RESPONSE_FIELDS.some(field => field in value);
+
+const validateStringArray = (value: unknown, path: string, issues: string[]): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array of strings, got ${describe(value)}`);
+    return undefined;
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== 'string') {
+      issues.push(`${path}[${index}] must be a string, got ${describe(item)}`);
+    }
+  });
+  return value.filter((item): item is string => typeof item === 'string');
+};
+
+// First of several alternative field names that is present
+const readAlias = (source: Record<string, unknown>, fields: string[]): [string, unknown] => {
+  const field = fields.find(name => source[name] !== undefined) || fields[0];
+  return [field, source[field]];
+};
+
+const validateSources = (value: unknown, warnings: string[]): WorkflowSource[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    warnings.push(`sources must be an array, got ${describe(value)}`);
+    return undefined;
+  }
+
+  return value.flatMap((source, index): WorkflowSource[] => {
+    const path = `sources[${index}]`;
+    if (!isPlainObject(source)) {
+      warnings.push(`${path} must be an object, got ${describe(source)}`);
+      return [];
+    }
+
+    const [documentIdField, documentId] = readAlias(source, ['documentId', 'document_id', 'docId']);
+    const [pageNumberField, rawPageNumber] = readAlias(source, ['pageNumber', 'page_number', 'page']);
+    const [snippetField, snippet] = readAlias(source, ['snippet', 'quote', 'text']);
+
+    if (documentId !== undefined && typeof documentId !== 'string') {
+      warnings.push(`${path}.${documentIdField} must be a string, got ${describe(documentId)}`);
+    }
+    const pageNumber = typeof rawPageNumber === 'string' && rawPageNumber.trim() ? Number(rawPageNumber) : rawPageNumber;
+    const validPageNumber = Number.isInteger(pageNumber) && (pageNumber as number) > 0;
+    if (rawPageNumber !== undefined && !validPageNumber) {
+      warnings.push(`${path}.${pageNumberField} must be a positive integer, got ${JSON.stringify(rawPageNumber)}`);
+    }
+    if (snippet !== undefined && typeof snippet !== 'string') {
+      warnings.push(`${path}.${snippetField} must be a string, got ${describe(snippet)}`);
+    }
+
+    return [{
+      documentId: typeof documentId === 'string' ? documentId : undefined,
+      pageNumber: validPageNumber ? pageNumber as number : undefined,
+      snippet: typeof snippet === 'string' ? snippet : undefined,
+    }];
+  });
+};
+
+const validateUsage = (value: unknown, warnings: string[]): TokenUsage | undefined => {
+  if (value === undefined) return undefined;
+  if (!isPlainObject(value)) {
+    warnings.push(`usage must be an object, got ${describe(value)}`);
+    return undefined;
+  }
+
+  const readCount = (field: keyof TokenUsage, snakeCaseField: string): number | undefined => {
+    const count = value[field] ?? value[snakeCaseField];
+    if (count === undefined) return undefined;
+    if (!(Number.isInteger(count) && (count as number) >= 0)) {
+      warnings.push(`usage.${field} must be a non-negative integer, got ${JSON.stringify(count)}`);
+      return undefined;
+    }
+    return count as number;
+  };
+
+  return {
+    promptTokens: readCount('promptTokens', 'prompt_tokens'),
+    completionTokens: readCount('completionTokens', 'completion_tokens'),
+    totalTokens: readCount('totalTokens', 'total_tokens'),
+  };
+};
+
+// Collect problems with an optional field of a given primitive type
+// Hex, rgb()/hsl() or a named colour. Node colours end up in style attributes, so anything else is rejected.
+const isCssColor = (value: string) =>
+  /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)
+  || /^(rgb|hsl)a?\([\d\s.,%/+-]+\)$/i.test(value)
+  || /^[a-z]{3,20}$/i.test(value);
+
+const checkOptional = (
+  value: unknown,
+  expected: 'string' | 'number',
+  path: string,
+  issues: string[]
+): void => {
+  if (value !== undefined && typeof value !== expected) {
+    issues.push(`${path} must be a ${expected}, got ${describe(value)}`);
+  }
+};
+
+const validateGraph = (value: unknown, issues: string[]): KnowledgeGraphData['graph'] => {
+  if (!isPlainObject(value)) {
+    issues.push(`graph must be an object, got ${describe(value)}`);
+    return { nodes: [], edges: [] };
+  }
+
+  const rawNodes = Array.isArray(value.nodes) ? value.nodes : [];
+  const rawEdges = value.edges === undefined ? [] : Array.isArray(value.edges) ? value.edges : [];
+  if (!Array.isArray(value.nodes)) {
+    issues.push(`graph.nodes must be an array, got ${describe(value.nodes)}`);
+  }
+  if (value.edges !== undefined && !Array.isArray(value.edges)) {
+    issues.push(`graph.edges must be an array, got ${describe(value.edges)}`);
+  }
+
+  const nodes = rawNodes.map((node, index): GraphNode | null => {
+    const path = `graph.nodes[${index}]`;
+    if (!isPlainObject(node)) {
+      issues.push(`${path} must be an object, got ${describe(node)}`);
+      return null;
+    }
+    if (typeof node.id !== 'string' || !node.id) issues.push(`${path}.id must be a non-empty string`);
+    if (typeof node.label !== 'string') issues.push(`${path}.label must be a string, got ${describe(node.label)}`);
+    checkOptional(node.size, 'number', `${path}.size`, issues);
+    checkOptional(node.color, 'string', `${path}.color`, issues);
+    if (typeof node.color === 'string' && !isCssColor(node.color)) {
+      issues.push(`${path}.color must be a CSS colour, got "${node.color}"`);
+    }
+    checkOptional(node.cluster, 'number', `${path}.cluster`, issues);
+    checkOptional(node.type, 'string', `${path}.type`, issues);
+    checkOptional(node.description, 'string', `${path}.description`, issues);
+    checkOptional(node.score, 'number', `${path}.score`, issues);
+
+    return {
+      id: node.id as string,
+      label: node.label as string,
+      size: (node.size as number | undefined) ?? DEFAULT_NODE_SIZE,
+      color: (node.color as string | undefined) ?? DEFAULT_NODE_COLOR,
+      cluster: (node.cluster as number | undefined) ?? 0,
+      type: (node.type as string | undefined) ?? 'Concept',
+      description: node.description as string | undefined,
+      score: (node.score as number | undefined) ?? 1,
+    };
+  }).filter((node): node is GraphNode => node !== null);
+
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const edges = rawEdges.map((edge, index): GraphEdge | null => {
+    const path = `graph.edges[${index}]`;
+    if (!isPlainObject(edge)) {
+      issues.push(`${path} must be an object, got ${describe(edge)}`);
+      return null;
+    }
+    (['source', 'target'] as const).forEach(end => {
+      if (typeof edge[end] !== 'string') {
+        issues.push(`${path}.${end} must be a string, got ${describe(edge[end])}`);
+      } else if (!nodeIds.has(edge[end] as string)) {
+        issues.push(`${path}.${end} refers to unknown node "${edge[end]}"`);
+      }
+    });
+    checkOptional(edge.weight, 'number', `${path}.weight`, issues);
+    checkOptional(edge.relationship, 'string', `${path}.relationship`, issues);
+
+    return {
+      source: edge.source as string,
+      target: edge.target as string,
+      weight: (edge.weight as number | undefined) ?? 0.5,
+      relationship: (edge.relationship as string | undefined) ?? 'related',
+    };
+  }).filter((edge): edge is GraphEdge => edge !== null);
+
+  return { nodes, edges };
+};
+
+const validateInsights = (value: unknown, issues: string[]): KnowledgeGraphData['insights'] => {
+  if (!isPlainObject(value)) {
+    issues.push(`insights must be an object, got ${describe(value)}`);
+    return { gaps: [], questions: [], clusters: [] };
+  }
+
+  const gaps = validateStringArray(value.gaps, 'insights.gaps', issues) || [];
+  const questions = validateStringArray(value.questions, 'insights.questions', issues) || [];
+
+  let clusters: KnowledgeGraphData['insights']['clusters'] = [];
+  if (value.clusters !== undefined) {
+    if (!Array.isArray(value.clusters)) {
+      issues.push(`insights.clusters must be an array, got ${describe(value.clusters)}`);
+    } else {
+      clusters = value.clusters.map((cluster, index) => {
+        const path = `insights.clusters[${index}]`;
+        if (!isPlainObject(cluster)) {
+          issues.push(`${path} must be an object, got ${describe(cluster)}`);
+          return { id: index, label: '', concepts: [] };
+        }
+        checkOptional(cluster.id, 'number', `${path}.id`, issues);
+        if (typeof cluster.label !== 'string') issues.push(`${path}.label must be a string, got ${describe(cluster.label)}`);
+        return {
+          id: (cluster.id as number | undefined) ?? index,
+          label: cluster.label as string,
+          concepts: validateStringArray(cluster.concepts, `${path}.concepts`, issues) || [],
+        };
+      });
+    }
+  }
+
+  return { gaps, questions, clusters };
+};
+
+// Build knowledge graph data from the workflow's graph, insights and summary fields, if it sent any.
+// An invalid graph, or one without nodes, is left out with a warning so the answer is analysed locally instead.
+const validateKnowledgeGraph = (
+  data: Record<string, unknown>,
+  warnings: string[]
+): KnowledgeGraphData | undefined => {
+  if (data.graph === undefined && data.insights === undefined && data.summary === undefined) {
+    return undefined;
+  }
+
+  const issues: string[] = [];
+  const graph = data.graph === undefined ? { nodes: [], edges: [] } : validateGraph(data.graph, issues);
+  const insights = data.insights === undefined
+    ? { gaps: [], questions: [], clusters: [] }
+    : validateInsights(data.insights, issues);
+  checkOptional(data.summary, 'string', 'summary', issues);
+
+  if (issues.length > 0) {
+    warnings.push(...issues, 'the knowledge graph was ignored because of the problems above');
+    return undefined;
+  }
+  if (graph.nodes.length === 0) {
+    warnings.push('the knowledge graph has no nodes and was ignored');
+    return undefined;
+  }
+
+  return {
+    graph,
+    insights,
+    summary: data.summary as string | undefined,
+    metadata: {
+      entityCount: graph.nodes.length,
+      timestamp: Date.now().toString(),
+      source: 'workflow',
+    },
+  };
+};
+
+// Check a raw webhook response against the schema and return it in normalised form, with problems in
+// optional fields listed as warnings. Throws WorkflowResponseValidationError listing every problem that
+// makes the response unusable.
+export const validateWorkflowResponse = (raw: unknown): WorkflowResponse => {
+  // n8n's "Respond to Webhook" node returns all items as an array; a single item is the response
+  const data = Array.isArray(raw) && raw.length === 1 ? raw[0] : raw;
+
+  if (typeof data === 'string') {
+    return { schemaVersion: WORKFLOW_RESPONSE_SCHEMA_VERSION, answer: data, warnings: [] };
+  }
+  if (!isPlainObject(data)) {
+    throw new WorkflowResponseValidationError([`response must be a JSON object or plain text, got ${describe(data)}`], raw);
+  }
+
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  let schemaVersion = WORKFLOW_RESPONSE_SCHEMA_VERSION;
+  if (data.schemaVersion !== undefined) {
+    if (typeof data.schemaVersion !== 'number' || !SUPPORTED_SCHEMA_VERSIONS.includes(data.schemaVersion)) {
+      issues.push(`schemaVersion ${JSON.stringify(data.schemaVersion)} is not supported (expected one of ${SUPPORTED_SCHEMA_VERSIONS.join(', ')})`);
+    } else {
+      schemaVersion = data.schemaVersion;
+    }
+  }
+
+  // Legacy field names are only accepted from unversioned responses
+  const answerField = data.answer !== undefined || data.schemaVersion !== undefined
+    ? 'answer'
+    : data.output !== undefined ? 'output' : 'response';
+  const answer = data[answerField];
+  if (answer === undefined) {
+    issues.push('answer is missing');
+  } else if (typeof answer !== 'string') {
+    issues.push(`${answerField} must be a string, got ${describe(answer)}`);
+  } else if (!answer.trim()) {
+    issues.push(`${answerField} is empty`);
+  }
+
+  const sources = validateSources(data.sources, warnings);
+  const documentIds = validateStringArray(data.documentIds, 'documentIds', warnings);
+  const followUpQuestions = validateStringArray(data.followUpQuestions, 'followUpQuestions', warnings);
+  const knowledgeGraph = validateKnowledgeGraph(data, warnings);
+  const usage = validateUsage(data.usage, warnings);
+
+  if (issues.length > 0) {
+    throw new WorkflowResponseValidationError(issues, raw);
+  }
+
+  return {
+    schemaVersion,
+    answer: answer as string,
+    sources,
+    documentIds,
+    followUpQuestions,
+    knowledgeGraph,
+    usage,
+    warnings,
+  };
+};
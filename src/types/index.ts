@@ -12,20 +12,136 @@ export interface Document {
     driveId: string;
     folderId?: string;
     createdTime: string;
+    // Last change to the file in Drive; cached answers for older versions are ignored
+    modifiedTime?: string;
   };
 }
 
+export interface ChatSource {
+  documentId: string;
+  pageNumber?: number;
+  snippet?: string;
+}
+
 export interface ChatMessage {
   id: string;
   content: string;
   sender: 'user' | 'assistant';
   timestamp: Date;
   documentId?: string;
+  // Documents the question was asked about (user) or the answer drew from (assistant)
+  documentIds?: string[];
+  // Passages the answer is based on, rendered as numbered footnotes
+  sources?: ChatSource[];
+  // Suggested next questions returned with the answer
+  followUpQuestions?: string[];
+  isStreaming?: boolean;
+  // Set on user messages waiting in the question queue for a free slot
+  queued?: boolean;
+  // Set on assistant messages whose request failed or was stopped by the user
+  status?: 'error' | 'stopped';
+  error?: string;
+  // Alternative versions of this message (edited questions, regenerated answers). The top-level fields
+  // always mirror variants[activeVariant]; a question and its answer share the same variant index.
+  // Each question variant is a branch of the conversation that owns the turns after it.
+  variants?: ChatMessageVariant[];
+  activeVariant?: number;
+  // The user's rating of an assistant answer
+  feedback?: ChatMessageFeedback;
+  // Structured request behind a slash command question, e.g. /summarize
+  intent?: ChatIntent;
+  // Set when the answer was served from the local answer cache, to the time it was originally answered
+  cachedAt?: Date;
+  // How the answer was obtained, for troubleshooting slow or bad answers
+  diagnostics?: ChatMessageDiagnostics;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ChatMessageDiagnostics {
+  backend: string;
+  // From sending the question until the answer was complete (or failed)
+  durationMs: number;
+  timeToFirstTokenMs?: number;
+  httpStatus?: number;
+  responseBytes?: number;
+  tokenUsage?: TokenUsage;
+  streamed?: boolean;
+  cached?: boolean;
+  // Problems with the backend response that didn't stop the answer, e.g. fields that were left out
+  warnings?: string[];
+}
+
+export type ChatIntentType = 'summarize' | 'extract-table' | 'timeline' | 'compare';
+
+export interface ChatIntent {
+  type: ChatIntentType;
+  // Free text typed after the command
+  instructions?: string;
+  // For 'compare': the document compared against the selected ones
+  targetDocumentId?: string;
+}
+
+export interface ChatMessageFeedback {
+  rating: 'up' | 'down';
+  comment?: string;
+  submittedAt: Date;
+}
+
+export interface ChatMessageVariant extends Omit<ChatMessage, 'id' | 'variants' | 'activeVariant'> {
+  // On question variants that aren't shown: the turns that followed this version of the question
+  laterMessages?: ChatMessage[];
 }
 
 export interface ChatSession {
   id: string;
   documentId: string;
+  documentIds?: string[];
+  title: string;
   messages: ChatMessage[];
   createdAt: Date;
-}
\ No newline at end of file
+  updatedAt: Date;
+}
+
+// Which component produced a knowledge graph
+export type KnowledgeGraphSource = 'workflow' | 'google-kg' | 'enhanced-fallback' | 'fallback-test';
+
+export interface KnowledgeGraphData {
+  graph: {
+    nodes: Array<{
+      id: string;
+      label: string;
+      size: number;
+      color: string;
+      cluster: number;
+      type: string;
+      description?: string;
+      score: number;
+    }>;
+    edges: Array<{
+      source: string;
+      target: string;
+      weight: number;
+      relationship: string;
+    }>;
+  };
+  insights: {
+    gaps: string[];
+    questions: string[];
+    clusters: Array<{
+      id: number;
+      label: string;
+      concepts: string[];
+    }>;
+  };
+  summary?: string;
+  metadata: {
+    entityCount: number;
+    timestamp: string;
+    source: KnowledgeGraphSource;
+  };
+}
@@ -0,0 +1,19 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GOOGLE_CLIENT_ID?: string;
+  readonly VITE_GOOGLE_CLIENT_SECRET?: string;
+  readonly VITE_GOOGLE_API_KEY?: string;
+  readonly VITE_GOOGLE_REDIRECT_URI?: string;
+  readonly VITE_N8N_WEBHOOK_URL?: string;
+  readonly VITE_N8N_AUTH_TOKEN?: string;
+  readonly VITE_N8N_SIGNING_SECRET?: string;
+  readonly VITE_FEEDBACK_WEBHOOK_URL?: string;
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_OPENAI_MODEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}